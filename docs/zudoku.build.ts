@@ -0,0 +1,56 @@
+import type { ZudokuBuildConfig } from "zudoku";
+import plans from "../config/plans.json";
+
+/**
+ * Crawl4AI Developer Portal Build Configuration
+ *
+ * Adds a "Pricing" note to every operation that declares x-billing in
+ * config/routes.oas.json, so the portal shows the same per-route price the
+ * gateway bills (see modules/metering.ts).
+ */
+
+type Operation = {
+  description?: string;
+  "x-billing"?: { billable?: boolean; units?: number };
+};
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options"];
+
+/**
+ * Render the pricing note for an operation's x-billing declaration
+ */
+function describePricing(billing: NonNullable<Operation["x-billing"]>): string {
+  if (billing.billable === false) {
+    return "**Pricing:** Free - this endpoint is not billed and does not count against your quota.";
+  }
+
+  const units = billing.units ?? 1;
+  const unitLabel = units === 1 ? "unit" : "units";
+  const weights = Object.entries(plans.metering?.extractionWeights ?? {})
+    .map(([type, weight]) => `x${weight} with \`${type}\` extraction`)
+    .join(", ");
+
+  const perUrl = `${units} ${unitLabel} per URL submitted${weights ? ` (${weights})` : ""}`;
+  return `**Pricing:** ${perUrl}. Requests without URLs cost ${units} ${unitLabel}.`;
+}
+
+const buildConfig: ZudokuBuildConfig = {
+  processors: [
+    async ({ schema }) => {
+      for (const pathItem of Object.values<Record<string, Operation>>(schema.paths ?? {})) {
+        for (const method of HTTP_METHODS) {
+          const operation = pathItem[method];
+          if (!operation?.["x-billing"]) continue;
+
+          const pricing = describePricing(operation["x-billing"]);
+          operation.description = operation.description
+            ? `${operation.description}\n\n${pricing}`
+            : pricing;
+        }
+      }
+      return schema;
+    },
+  ],
+};
+
+export default buildConfig;
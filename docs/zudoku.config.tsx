@@ -124,6 +124,10 @@ const config: ZudokuConfig = {
               label: "API Endpoints",
               to: "/api",
             },
+            {
+              type: "doc",
+              file: "errors",
+            },
           ],
         },
         {
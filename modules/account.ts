@@ -0,0 +1,121 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { ConsumerApiError, updateConsumerMetadata } from "./consumers";
+import { getConsumerWebhookSecret } from "./webhooks";
+import { gatewayProblem } from "./problems";
+import { getOrganization, invalidateOrganization } from "./organizations";
+
+/**
+ * Account - Request Handlers
+ *
+ * Self-service settings for the calling consumer, stored in consumer metadata.
+ *
+ * - GET /account/spend-cap: Current monthly overage spend cap
+ * - PUT /account/spend-cap: Set the cap ({ "maxMonthlyOverageSpend": 50 }),
+ *   or remove it ({ "maxMonthlyOverageSpend": null })
+ * - GET /account/webhook-secret: Secret for verifying job webhooks (random per
+ *   consumer, created on first use and kept by webhooks.ts; see webhook-signature.ts)
+ *
+ * The cap is enforced by quota-enforcement. Changes apply within about a
+ * minute (api-key-auth caches consumer metadata).
+ *
+ * Organization members share their organization's spend cap (see
+ * organizations.ts); only keys with organizationRole "owner" may change it.
+ */
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Get the caller's monthly overage spend cap
+ */
+export async function getSpendCap(request: ZuploRequest, context: ZuploContext) {
+  const spendCap = request.user?.data?.maxMonthlyOverageSpend;
+  return jsonResponse({
+    maxMonthlyOverageSpend: typeof spendCap === "number" ? spendCap : null,
+  });
+}
+
+/**
+ * Set or remove the caller's monthly overage spend cap
+ */
+export async function setSpendCap(request: ZuploRequest, context: ZuploContext) {
+  const user = request.user!;
+
+  let body: { maxMonthlyOverageSpend?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return gatewayProblem(request, context, "bad-request", "Body must be JSON");
+  }
+
+  const spendCap = body?.maxMonthlyOverageSpend;
+  if (
+    spendCap !== null &&
+    (typeof spendCap !== "number" || !Number.isFinite(spendCap) || spendCap < 0)
+  ) {
+    return gatewayProblem(
+      request,
+      context,
+      "bad-request",
+      "maxMonthlyOverageSpend must be a non-negative number (dollars) or null"
+    );
+  }
+
+  const organization = getOrganization(user);
+  if (organization && user.data?.organizationRole !== "owner") {
+    return gatewayProblem(
+      request,
+      context,
+      "forbidden",
+      `The spend cap is shared by the ${organization} organization; only its owners can change it.`
+    );
+  }
+
+  try {
+    await updateConsumerMetadata(
+      organization ?? user.sub,
+      { maxMonthlyOverageSpend: spendCap === null ? undefined : spendCap },
+      context
+    );
+    if (organization) {
+      await invalidateOrganization(organization, context);
+    }
+  } catch (error) {
+    context.log.error(`Spend cap update failed: user=${user.sub}, error=${error}`);
+    if (error instanceof ConsumerApiError) {
+      return gatewayProblem(
+        request,
+        context,
+        "service-unavailable",
+        "Account settings cannot be updated right now. Please try again later."
+      );
+    }
+    throw error;
+  }
+
+  context.log.info(
+    `Spend cap set: user=${user.sub}, organization=${organization}, maxMonthlyOverageSpend=${spendCap}`
+  );
+  return jsonResponse({ maxMonthlyOverageSpend: spendCap });
+}
+
+/**
+ * Get the caller's webhook signing secret
+ */
+export async function getWebhookSecret(request: ZuploRequest, context: ZuploContext) {
+  try {
+    return jsonResponse({ webhookSecret: await getConsumerWebhookSecret(request.user!.sub, context) });
+  } catch (error) {
+    context.log.error(`Webhook secret read failed: user=${request.user!.sub}, error=${error}`);
+    return gatewayProblem(
+      request,
+      context,
+      "service-unavailable",
+      "Webhook signing is not available right now. Please try again later."
+    );
+  }
+}
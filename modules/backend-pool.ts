@@ -0,0 +1,439 @@
+import { ZuploContext } from "@zuplo/runtime";
+import backendPoolConfig from "../config/backends.json";
+
+/**
+ * Backend Pool
+ *
+ * The crawl backends the gateway proxies to, loaded from config/backends.json
+ * and validated once at startup (see zuplo.runtime.ts).
+ *
+ * - strategy: How a backend is picked for a new request
+ *   - "weighted": Random, proportional to each backend's weight
+ *   - "least-loaded": Fewest in-flight requests relative to weight
+ * - healthCheck: Each backend's healthCheck.path is probed every intervalSeconds.
+ *   A backend is taken out of rotation after unhealthyThreshold failed probes
+ *   and returns after healthyThreshold successful ones
+ * - circuitBreaker: After failureThreshold consecutive failed requests (network
+ *   errors or 5xx) a backend's circuit opens and it gets no traffic for
+ *   openSeconds. A single trial request is then let through (half-open):
+ *   success closes the circuit, failure opens it again
+ * - forwarding: How backend-proxy forwards requests
+ *   - timeoutMs: Time allowed for a backend to start responding (504 after)
+ *   - getRetries: Extra attempts for GET/HEAD requests that fail to connect,
+ *     time out or get a 502/503/504 (other methods are never retried)
+ *   - retryBackoffMs: Delay before the first retry, doubled for each further one
+ *
+ * Health, circuit and load state is kept in memory per gateway instance. Zuplo
+ * has no background timers, so due health checks are started from incoming
+ * requests and run in the background (context.waitUntil).
+ */
+
+/**
+ * A backend origin
+ * - weight: Relative share of traffic (positive integer)
+ */
+export interface BackendDefinition {
+  id: string;
+  url: string;
+  weight: number;
+}
+
+/**
+ * Active health check settings
+ */
+export interface HealthCheckConfig {
+  path: string;
+  intervalSeconds: number;
+  timeoutMs: number;
+  unhealthyThreshold: number;
+  healthyThreshold: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  openSeconds: number;
+}
+
+/**
+ * Request forwarding settings
+ */
+export interface ForwardingConfig {
+  timeoutMs: number;
+  getRetries: number;
+  retryBackoffMs: number;
+}
+
+/**
+ * Validated backend pool configuration
+ */
+export interface BackendPoolConfig {
+  strategy: "weighted" | "least-loaded";
+  backends: BackendDefinition[];
+  healthCheck: HealthCheckConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  forwarding: ForwardingConfig;
+}
+
+/**
+ * Thrown when config/backends.json does not describe a valid pool
+ */
+export class BackendPoolError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid backend pool:\n- ${issues.join("\n- ")}`);
+    this.name = "BackendPoolError";
+  }
+}
+
+/**
+ * Runtime state of one backend (per gateway instance)
+ */
+interface BackendState {
+  healthy: boolean;
+  healthFailures: number;
+  healthSuccesses: number;
+  lastCheckedAt: number;
+  checking: boolean;
+  requestFailures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+  inFlight: number;
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+let pool: BackendPoolConfig | undefined;
+const states = new Map<string, BackendState>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a raw backend pool object
+ *
+ * @param raw - Parsed contents of config/backends.json
+ * @returns BackendPoolConfig - The validated pool
+ * @throws BackendPoolError - If the pool is invalid
+ */
+export function validateBackendPool(raw: unknown): BackendPoolConfig {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new BackendPoolError(["backend pool must be an object"]);
+  }
+
+  const strategy = raw.strategy ?? "least-loaded";
+  if (strategy !== "weighted" && strategy !== "least-loaded") {
+    issues.push(`strategy must be "weighted" or "least-loaded"`);
+  }
+
+  const backends: BackendDefinition[] = [];
+  if (!Array.isArray(raw.backends) || raw.backends.length === 0) {
+    issues.push("backends must be a non-empty array");
+  } else {
+    const ids = new Set<string>();
+    raw.backends.forEach((value: unknown, index: number) => {
+      if (!isRecord(value)) {
+        issues.push(`backends[${index}] must be an object`);
+        return;
+      }
+      if (typeof value.id !== "string" || !value.id) {
+        issues.push(`backends[${index}].id must be a non-empty string`);
+      } else if (ids.has(value.id)) {
+        issues.push(`backends[${index}].id "${value.id}" is used more than once`);
+      } else {
+        ids.add(value.id);
+      }
+      if (typeof value.url !== "string" || !URL.canParse(value.url)) {
+        issues.push(`backends[${index}].url must be an absolute URL`);
+      }
+      const weight = value.weight ?? 1;
+      if (!isPositiveInteger(weight)) {
+        issues.push(`backends[${index}].weight must be a positive integer`);
+      }
+      backends.push({
+        id: value.id as string,
+        url: (value.url as string)?.replace(/\/+$/, ""),
+        weight: weight as number,
+      });
+    });
+  }
+
+  const healthCheck = isRecord(raw.healthCheck) ? raw.healthCheck : {};
+  if (raw.healthCheck !== undefined && !isRecord(raw.healthCheck)) {
+    issues.push("healthCheck must be an object");
+  }
+  if (typeof healthCheck.path !== "string" || !healthCheck.path.startsWith("/")) {
+    issues.push("healthCheck.path must be a path starting with /");
+  }
+  for (const field of ["intervalSeconds", "timeoutMs", "unhealthyThreshold", "healthyThreshold"]) {
+    if (!isPositiveInteger(healthCheck[field])) {
+      issues.push(`healthCheck.${field} must be a positive integer`);
+    }
+  }
+
+  const circuitBreaker = isRecord(raw.circuitBreaker) ? raw.circuitBreaker : {};
+  if (raw.circuitBreaker !== undefined && !isRecord(raw.circuitBreaker)) {
+    issues.push("circuitBreaker must be an object");
+  }
+  for (const field of ["failureThreshold", "openSeconds"]) {
+    if (!isPositiveInteger(circuitBreaker[field])) {
+      issues.push(`circuitBreaker.${field} must be a positive integer`);
+    }
+  }
+
+  const forwarding = isRecord(raw.forwarding) ? raw.forwarding : {};
+  if (raw.forwarding !== undefined && !isRecord(raw.forwarding)) {
+    issues.push("forwarding must be an object");
+  }
+  if (!isPositiveInteger(forwarding.timeoutMs)) {
+    issues.push("forwarding.timeoutMs must be a positive integer");
+  }
+  for (const field of ["getRetries", "retryBackoffMs"]) {
+    const value = forwarding[field];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      issues.push(`forwarding.${field} must be a non-negative integer`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new BackendPoolError(issues);
+  }
+
+  return {
+    strategy: strategy as BackendPoolConfig["strategy"],
+    backends,
+    healthCheck: healthCheck as unknown as HealthCheckConfig,
+    circuitBreaker: circuitBreaker as unknown as CircuitBreakerConfig,
+    forwarding: forwarding as unknown as ForwardingConfig,
+  };
+}
+
+/**
+ * Load and validate the backend pool (cached after the first call)
+ *
+ * @returns BackendPoolConfig - The validated pool
+ * @throws BackendPoolError - If config/backends.json is invalid
+ */
+export function loadBackendPool(): BackendPoolConfig {
+  if (!pool) {
+    pool = validateBackendPool(backendPoolConfig);
+  }
+  return pool;
+}
+
+function getState(backend: BackendDefinition): BackendState {
+  let state = states.get(backend.id);
+  if (!state) {
+    state = {
+      healthy: true, // Optimistic until the first check says otherwise
+      healthFailures: 0,
+      healthSuccesses: 0,
+      lastCheckedAt: 0,
+      checking: false,
+      requestFailures: 0,
+      trialInFlight: false,
+      inFlight: 0,
+    };
+    states.set(backend.id, state);
+  }
+  return state;
+}
+
+function getCircuitState(state: BackendState): CircuitState {
+  if (state.openedAt === undefined) {
+    return "closed";
+  }
+  const { openSeconds } = loadBackendPool().circuitBreaker;
+  return Date.now() - state.openedAt < openSeconds * 1000 ? "open" : "half-open";
+}
+
+/**
+ * Probe a backend's health endpoint and update its health state
+ */
+async function checkHealth(backend: BackendDefinition, context: ZuploContext): Promise<void> {
+  const { healthCheck } = loadBackendPool();
+  const state = getState(backend);
+
+  let ok = false;
+  try {
+    const response = await fetch(`${backend.url}${healthCheck.path}`, {
+      signal: AbortSignal.timeout(healthCheck.timeoutMs),
+    });
+    ok = response.ok;
+  } catch (error) {
+    context.log.debug(`Health check error: backend=${backend.id}, error=${error}`);
+  } finally {
+    state.lastCheckedAt = Date.now();
+    state.checking = false;
+  }
+
+  if (ok) {
+    state.healthFailures = 0;
+    state.healthSuccesses += 1;
+    if (!state.healthy && state.healthSuccesses >= healthCheck.healthyThreshold) {
+      state.healthy = true;
+      context.log.info(`Backend healthy again: backend=${backend.id}`);
+    }
+  } else {
+    state.healthSuccesses = 0;
+    state.healthFailures += 1;
+    if (state.healthy && state.healthFailures >= healthCheck.unhealthyThreshold) {
+      state.healthy = false;
+      context.log.warn(`Backend marked unhealthy: backend=${backend.id}, failedChecks=${state.healthFailures}`);
+    }
+  }
+}
+
+/**
+ * Start health checks for every backend whose check is due (in the background)
+ */
+function runDueHealthChecks(context: ZuploContext): void {
+  const { backends, healthCheck } = loadBackendPool();
+  const now = Date.now();
+
+  for (const backend of backends) {
+    const state = getState(backend);
+    if (!state.checking && now - state.lastCheckedAt >= healthCheck.intervalSeconds * 1000) {
+      state.checking = true;
+      context.waitUntil(checkHealth(backend, context));
+    }
+  }
+}
+
+/**
+ * Check whether a backend can take a request right now
+ *
+ * @param backend - The backend
+ * @returns boolean - False if it failed its health checks, its circuit is open,
+ *   or its half-open trial request is still running
+ */
+export function isBackendAvailable(backend: BackendDefinition): boolean {
+  const state = getState(backend);
+  if (!state.healthy) {
+    return false;
+  }
+  switch (getCircuitState(state)) {
+    case "open":
+      return false;
+    case "half-open":
+      return !state.trialInFlight;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Get a backend by id
+ *
+ * @param id - Backend id from config/backends.json
+ * @returns BackendDefinition | undefined - The backend, if it is still configured
+ */
+export function getBackend(id: string): BackendDefinition | undefined {
+  return loadBackendPool().backends.find((backend) => backend.id === id);
+}
+
+/**
+ * Pick a backend for a new request
+ *
+ * Also starts any health checks that are due.
+ *
+ * @param context - Zuplo context
+ * @returns BackendDefinition | undefined - The chosen backend, or undefined if
+ *   none is available
+ */
+export function selectBackend(context: ZuploContext): BackendDefinition | undefined {
+  runDueHealthChecks(context);
+
+  const { backends, strategy } = loadBackendPool();
+  const candidates = backends.filter(isBackendAvailable);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  if (strategy === "weighted") {
+    const totalWeight = candidates.reduce((sum, backend) => sum + backend.weight, 0);
+    let pick = Math.random() * totalWeight;
+    for (const backend of candidates) {
+      pick -= backend.weight;
+      if (pick < 0) {
+        return backend;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  // least-loaded
+  return candidates.reduce((best, backend) =>
+    getState(backend).inFlight / backend.weight < getState(best).inFlight / best.weight ? backend : best
+  );
+}
+
+/**
+ * Send a request to a backend, tracking its load and circuit breaker
+ *
+ * Network errors and 5xx responses count as failures; the error is rethrown
+ * and the response returned unchanged.
+ *
+ * @param backend - The backend to call
+ * @param send - Performs the fetch against backend.url
+ * @param context - Zuplo context for logging
+ * @returns Promise<Response> - The backend response
+ */
+export async function callBackend(
+  backend: BackendDefinition,
+  send: () => Promise<Response>,
+  context: ZuploContext
+): Promise<Response> {
+  const state = getState(backend);
+  const isTrial = getCircuitState(state) === "half-open";
+  if (isTrial) {
+    state.trialInFlight = true;
+  }
+  state.inFlight += 1;
+
+  let failed = true;
+  try {
+    const response = await send();
+    failed = response.status >= 500;
+    return response;
+  } finally {
+    state.inFlight -= 1;
+    if (isTrial) {
+      state.trialInFlight = false;
+    }
+    recordResult(backend, state, !failed, context);
+  }
+}
+
+function recordResult(
+  backend: BackendDefinition,
+  state: BackendState,
+  ok: boolean,
+  context: ZuploContext
+): void {
+  const { failureThreshold } = loadBackendPool().circuitBreaker;
+  const circuit = getCircuitState(state);
+
+  if (ok) {
+    if (circuit !== "closed") {
+      context.log.info(`Circuit closed: backend=${backend.id}`);
+    }
+    state.requestFailures = 0;
+    state.openedAt = undefined;
+    return;
+  }
+
+  state.requestFailures += 1;
+  if (circuit === "half-open" || (circuit === "closed" && state.requestFailures >= failureThreshold)) {
+    state.openedAt = Date.now();
+    context.log.warn(`Circuit opened: backend=${backend.id}, consecutiveFailures=${state.requestFailures}`);
+  }
+}
@@ -1,32 +1,335 @@
 import { ZuploContext, ZuploRequest, environment } from "@zuplo/runtime";
+import {
+  BackendDefinition,
+  callBackend,
+  getBackend,
+  isBackendAvailable,
+  loadBackendPool,
+  selectBackend,
+} from "./backend-pool";
+import { getJob } from "./jobs";
+import { SignedIdentity, SigningKey, signGatewayRequest } from "./gateway-signature";
+import { gatewayProblem } from "./problems";
 
-export default async function (request: ZuploRequest, context: ZuploContext) {
-  const backendUrl = "http://api2.crawl4ai.com";
+/**
+ * Backend Proxy - Request Handler
+ *
+ * Forwards requests to a crawl backend from the pool in config/backends.json
+ * (see backend-pool.ts for health checks, routing and circuit breaking).
+ *
+ * sendToBackend is also used by the gateway's own background calls to a backend
+ * (see webhooks.ts), so those are signed and circuit-broken the same way.
+ *
+ * Requests for an existing job (routes with a jobId path parameter) are routed
+ * to the backend that accepted the job, as recorded by job-tracking. Jobs the
+ * gateway has no record of are routed like new requests (on routes that run
+ * job-ownership they are rejected before reaching the handler).
+ *
+ * The chosen backend is stored in context.custom.backendId for job-tracking.
+ *
+ * Every forwarded request is signed (see gateway-signature.ts) and carries the
+ * authenticated consumer and tier as signed headers.
+ *
+ * Forwarding:
+ * - Only allow-listed client headers reach the backend (never the API key)
+ * - X-Forwarded-For/-Proto/-Host and X-Request-ID (context.requestId) are added;
+ *   X-Request-ID is also returned to the client
+ * - Responses are streamed back unbuffered, minus hop-by-hop headers
+ * - Request bodies are streamed to the backend as they arrive, never buffered
+ *   by the handler. Their hash is not known when the headers are signed, so
+ *   they are signed as UNSIGNED-PAYLOAD (see gateway-signature.ts)
+ * - A backend that has not started responding within forwarding.timeoutMs
+ *   (config/backends.json) gets a 504; one that cannot be reached gets a 502
+ * - GET/HEAD requests are retried on connection errors, timeouts and
+ *   502/503/504, with backoff. Other methods are never retried, since the
+ *   backend may already have acted on them
+ *
+ * Requirements:
+ * - Environment variables: GATEWAY_SIGNING_KEY_ID, GATEWAY_SIGNING_KEY. Without
+ *   them requests get a 503 and background status checks are skipped
+ * - GATEWAY_SECRET (optional): Legacy static secret, still sent as X-Gateway-Secret
+ *   while set. Remove it once the backend verifies signatures
+ */
+
+// Client headers forwarded to the backend; everything else is dropped
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-encoding",
+  "accept-language",
+  "cache-control",
+  "content-language",
+  "content-type",
+  "if-match",
+  "if-modified-since",
+  "if-none-match",
+  "if-range",
+  "if-unmodified-since",
+  "range",
+  "user-agent",
+];
+
+// Connection-specific headers that must not be passed through a proxy
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
 
-  // Get gateway secret from environment
-  const gatewaySecret = environment.GATEWAY_SECRET;
+// Backend statuses worth retrying for GET/HEAD
+const RETRYABLE_STATUSES = [502, 503, 504];
 
-  // Log error if secret is missing
-  if (!gatewaySecret) {
-    context.log.error("GATEWAY_SECRET environment variable not configured");
-    throw new Error("Gateway secret not configured");
+/**
+ * Thrown when a backend does not start responding within the timeout
+ */
+export class BackendTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Backend did not respond within ${timeoutMs}ms`);
+    this.name = "BackendTimeoutError";
   }
+}
 
-  // Construct the full URL
-  const url = new URL(request.url);
-  const targetUrl = `${backendUrl}${url.pathname}${url.search}`;
-
-  // Forward the request to the backend
-  const response = await fetch(targetUrl, {
-    method: request.method,
-    headers: {
-      "Content-Type": "application/json",
-      "X-Gateway-Secret": gatewaySecret
-    },
-    body: request.method !== "GET" && request.method !== "HEAD"
-      ? await request.text()
-      : undefined,
+/**
+ * Signing key for gateway-to-backend requests
+ *
+ * @param context - Zuplo context for logging
+ * @returns SigningKey | undefined - The configured key, or undefined if
+ *   GATEWAY_SIGNING_KEY_ID / GATEWAY_SIGNING_KEY are not set (logged)
+ */
+export function getSigningKey(context: ZuploContext): SigningKey | undefined {
+  const signingKeyId = environment.GATEWAY_SIGNING_KEY_ID;
+  const signingKey = environment.GATEWAY_SIGNING_KEY;
+
+  if (!signingKeyId || !signingKey) {
+    context.log.error("GATEWAY_SIGNING_KEY_ID / GATEWAY_SIGNING_KEY environment variables not configured");
+    return undefined;
+  }
+  return { id: signingKeyId, secret: signingKey };
+}
+
+/**
+ * Fetch with a timeout on the response headers only, so that long streamed
+ * response bodies are not cut off
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new BackendTimeoutError(timeoutMs)), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function backoff(baseMs: number, attempt: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, baseMs * 2 ** attempt));
+}
+
+/**
+ * Build the headers sent to the backend (before signing)
+ */
+function buildForwardHeaders(request: ZuploRequest, url: URL, context: ZuploContext): Headers {
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value !== null) {
+      headers.set(name, value);
+    }
+  }
+
+  const clientIp = request.headers.get("true-client-ip");
+  if (clientIp) {
+    headers.set("X-Forwarded-For", clientIp);
+  }
+  headers.set("X-Forwarded-Proto", url.protocol.replace(":", ""));
+  headers.set("X-Forwarded-Host", url.host);
+  headers.set("X-Request-ID", context.requestId);
+
+  if (environment.GATEWAY_SECRET) {
+    headers.set("X-Gateway-Secret", environment.GATEWAY_SECRET);
+  }
+  return headers;
+}
+
+/**
+ * Send one signed request to a backend
+ *
+ * Signs the request (each call gets a fresh nonce and timestamp), then sends it
+ * through the backend's circuit breaker with the forwarding timeout from
+ * config/backends.json. Does not retry.
+ *
+ * @param backend - The backend to call
+ * @param method - HTTP method
+ * @param pathAndQuery - Path and query string, as sent to the backend
+ * @param headers - Request headers (signature headers are added)
+ * @param body - Request body stream, if any (signed as UNSIGNED-PAYLOAD)
+ * @param identity - Consumer and tier the request is made for
+ * @param signingKey - Key to sign with (see getSigningKey)
+ * @param context - Zuplo context
+ * @returns Promise<Response> - The backend response (body not yet read)
+ * @throws BackendTimeoutError - If the backend does not start responding in time
+ */
+export async function sendToBackend(
+  backend: BackendDefinition,
+  method: string,
+  pathAndQuery: string,
+  headers: Headers,
+  body: ReadableStream<Uint8Array> | null | undefined,
+  identity: SignedIdentity,
+  signingKey: SigningKey,
+  context: ZuploContext
+): Promise<Response> {
+  const { forwarding } = loadBackendPool();
+  const signature = await signGatewayRequest(method, pathAndQuery, body, identity, signingKey);
+  for (const [name, value] of Object.entries(signature)) {
+    headers.set(name, value);
+  }
+
+  return callBackend(
+    backend,
+    () => fetchWithTimeout(`${backend.url}${pathAndQuery}`, { method, headers, body }, forwarding.timeoutMs),
+    context
+  );
+}
+
+/**
+ * Pass the backend response through, streaming its body
+ */
+function buildClientResponse(response: Response, context: ZuploContext): Response {
+  const headers = new Headers(response.headers);
+  for (const name of HOP_BY_HOP_HEADERS) {
+    headers.delete(name);
+  }
+  headers.set("X-Request-ID", context.requestId);
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
   });
+}
+
+/**
+ * Resolve the backend for a request
+ *
+ * @returns BackendDefinition | Response - The backend, or a 503 response if the
+ *   job's backend (or every backend) is unavailable
+ */
+async function resolveBackend(
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<BackendDefinition | Response> {
+  const jobId = request.params.jobId;
+  if (jobId) {
+    const job = await getJob(jobId, context);
+    const owner = job && getBackend(job.backendId);
+    if (owner) {
+      if (!isBackendAvailable(owner)) {
+        context.log.warn(`Job backend unavailable: jobId=${jobId}, backend=${owner.id}`);
+        return gatewayProblem(
+          request,
+          context,
+          "service-unavailable",
+          "The backend running this job is temporarily unavailable. Please retry shortly."
+        );
+      }
+      return owner;
+    }
+    if (job) {
+      context.log.warn(`Job backend no longer configured: jobId=${jobId}, backend=${job.backendId}`);
+    }
+  }
+
+  const backend = selectBackend(context);
+  if (!backend) {
+    context.log.error("No backend available: all backends unhealthy or circuit open");
+    return gatewayProblem(
+      request,
+      context,
+      "service-unavailable",
+      "The crawl service is temporarily unavailable. Please retry shortly."
+    );
+  }
+  return backend;
+}
 
-  return response;
+export default async function (request: ZuploRequest, context: ZuploContext) {
+  const signingKey = getSigningKey(context);
+  if (!signingKey) {
+    return gatewayProblem(request, context, "service-unavailable", "The crawl service is not configured.");
+  }
+
+  const { forwarding } = loadBackendPool();
+  const url = new URL(request.url);
+  const pathAndQuery = `${url.pathname}${url.search}`;
+  const retryable = request.method === "GET" || request.method === "HEAD";
+  // Streamed (see Forwarding above); never retried, so it is only read once
+  const body = retryable ? undefined : request.body;
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = retryable && attempt < forwarding.getRetries;
+
+    const backend = await resolveBackend(request, context);
+    if (backend instanceof Response) {
+      return backend;
+    }
+    context.custom.backendId = backend.id;
+
+    let response: Response;
+    try {
+      response = await sendToBackend(
+        backend,
+        request.method,
+        pathAndQuery,
+        buildForwardHeaders(request, url, context),
+        body,
+        {
+          consumer: request.user?.sub ?? "",
+          tier: (request.user?.data?.tier as string) || "free",
+        },
+        signingKey,
+        context
+      );
+    } catch (error) {
+      const timedOut = error instanceof BackendTimeoutError;
+      context.log.error(
+        `Backend request failed: backend=${backend.id}, attempt=${attempt + 1}, ` +
+          (timedOut ? `timeout=${forwarding.timeoutMs}ms` : `error=${error}`)
+      );
+      if (canRetry) {
+        await backoff(forwarding.retryBackoffMs, attempt);
+        continue;
+      }
+      if (timedOut) {
+        return gatewayProblem(
+          request,
+          context,
+          "gateway-timeout",
+          "The crawl service did not respond in time. Please retry shortly.",
+          { timeoutMs: forwarding.timeoutMs }
+        );
+      }
+      return gatewayProblem(
+        request,
+        context,
+        "bad-gateway",
+        "The crawl service could not be reached. Please retry shortly."
+      );
+    }
+
+    if (canRetry && RETRYABLE_STATUSES.includes(response.status)) {
+      context.log.warn(`Retrying backend response: backend=${backend.id}, status=${response.status}, attempt=${attempt + 1}`);
+      await response.body?.cancel();
+      await backoff(forwarding.retryBackoffMs, attempt);
+      continue;
+    }
+
+    return buildClientResponse(response, context);
+  }
 }
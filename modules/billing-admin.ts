@@ -0,0 +1,70 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { drainOutbox, listDeadLetters, replayDeadLetters } from "./billing-outbox";
+import { getBillingProvider } from "./billing-provider";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Billing Admin - Request Handlers
+ *
+ * Internal routes for finance to inspect and recover undelivered usage after
+ * a Stripe outage (see billing-outbox.ts). Protected by api-key-auth and the
+ * require-finance-role policy.
+ *
+ * - GET  /admin/billing/dead-letters: List dead-lettered usage batches
+ * - POST /admin/billing/replay: Replay dead letters, optionally { "ids": [...] },
+ *   then flush all buffered usage and deliver pending batches without waiting
+ *   for their backoff
+ *
+ * Replays reuse each meter event's original identifier. Stripe only remembers
+ * identifiers for 24 hours, so before replaying older events, check in Stripe
+ * that the usage was not recorded (a timed-out request may still have succeeded).
+ */
+
+/**
+ * List dead-lettered usage batches
+ */
+export async function getDeadLetters(request: ZuploRequest, context: ZuploContext) {
+  const batches = await listDeadLetters(context);
+  const totalUnits = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+
+  return new Response(JSON.stringify({ count: batches.length, totalUnits, batches }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Replay dead-lettered usage batches to Stripe, then flush and drain the outbox
+ */
+export async function replayBilling(request: ZuploRequest, context: ZuploContext) {
+  let ids: string[] | undefined;
+
+  const body = await request.text();
+  if (body) {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed.ids !== undefined) {
+        if (!Array.isArray(parsed.ids) || !parsed.ids.every((id: unknown) => typeof id === "string")) {
+          return gatewayProblem(request, context, "bad-request", "ids must be an array of batch IDs");
+        }
+        ids = parsed.ids;
+      }
+    } catch {
+      return gatewayProblem(request, context, "bad-request", "Body must be JSON");
+    }
+  }
+
+  const provider = getBillingProvider(context);
+  if (!provider) {
+    return gatewayProblem(request, context, "internal-error", "Billing provider not configured");
+  }
+
+  context.log.info(`Billing replay requested by user=${request.user?.sub}, ids=${ids ? ids.join(",") : "all"}`);
+  const deadLetters = await replayDeadLetters(ids, provider, context);
+  const pending = await drainOutbox(provider, context, { force: true, flushAll: true });
+
+  return new Response(JSON.stringify({ deadLetters, pending }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
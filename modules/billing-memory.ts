@@ -0,0 +1,94 @@
+import type { BillingConfig, BillingProvider, InvoiceCredit, MeteredUsage } from "./billing-provider";
+
+/**
+ * Memory Billing Provider
+ *
+ * A billing provider for local development and tests (see billing-provider.ts),
+ * selected with provider "memory" in config/billing.json or BILLING_PROVIDER=memory.
+ * Needs no Stripe keys or network access, and answers the same way every time
+ * for the same seed data and usage.
+ *
+ * - recordUsage: Always succeeds; a repeated identifier is not counted again
+ * - creditInvoice: Always succeeds; a repeated identifier is not credited
+ *   again. Credits do not change period usage (as with Stripe's meter)
+ * - getPeriodUsage: Seed usage for the customer plus the usage recorded in the
+ *   period (by timestamp). Seed entries without a timestamp count towards
+ *   every period
+ * - getSubscription: The seed subscription with that ID
+ * - getSubscriptionItemCustomer: The customer of the seed subscription with
+ *   that subscription item
+ *
+ * State lives in the isolate: it starts from config/billing.json when the
+ * gateway starts and is lost when it restarts. Isolates do not share it, so
+ * use a single-instance local gateway for predictable totals.
+ *
+ * Scope: local development (zuplo dev) and tests (tests/quota.test.ts) only.
+ * Nothing is persisted, to a file or elsewhere, so it must never be selected
+ * for a deployed gateway: usage recorded there would not be billed.
+ */
+
+let recorded: Map<string, MeteredUsage> | undefined;
+let credited: Map<string, InvoiceCredit> | undefined;
+
+function inPeriod(timestamp: number, start: Date, end: Date): boolean {
+  const at = timestamp * 1000;
+  return at >= start.getTime() && at < end.getTime();
+}
+
+/**
+ * Create the memory provider for the seed data
+ *
+ * @param seed - The memory section of the billing config
+ * @returns BillingProvider - A provider over the isolate's usage
+ */
+export function createMemoryBillingProvider(seed: BillingConfig["memory"]): BillingProvider {
+  if (!recorded || !credited) {
+    recorded = new Map();
+    credited = new Map();
+  }
+  const usage = recorded;
+  const credits = credited;
+
+  return {
+    name: "memory",
+    recordUsage: async (event, context) => {
+      if (!usage.has(event.identifier)) {
+        usage.set(event.identifier, event);
+      }
+      context.log.debug(
+        `Memory billing: recorded customer=${event.customerId}, value=${event.value}, identifier=${event.identifier}`
+      );
+      return { ok: true, retryable: false };
+    },
+    creditInvoice: async (credit, context) => {
+      if (!credits.has(credit.identifier)) {
+        credits.set(credit.identifier, credit);
+      }
+      context.log.debug(
+        `Memory billing: credited customer=${credit.customerId}, amount=${credit.amount}, ` +
+          `identifier=${credit.identifier}`
+      );
+      return { ok: true, retryable: false };
+    },
+    getPeriodUsage: async (customerId, period) => {
+      const seeded = seed.usage
+        .filter((entry) => entry.customerId === customerId)
+        .filter((entry) => entry.timestamp === undefined || inPeriod(entry.timestamp, period.start, period.end))
+        .reduce((sum, entry) => sum + entry.value, 0);
+
+      let total = seeded;
+      for (const event of usage.values()) {
+        if (event.customerId === customerId && inPeriod(event.timestamp, period.start, period.end)) {
+          total += event.value;
+        }
+      }
+      return total;
+    },
+    getSubscription: async (subscriptionId) => {
+      const subscription = seed.subscriptions.find((candidate) => candidate.id === subscriptionId);
+      return subscription ? { ...subscription } : undefined;
+    },
+    getSubscriptionItemCustomer: async (subscriptionItemId) =>
+      seed.subscriptions.find((candidate) => candidate.subscriptionItemId === subscriptionItemId)?.customerId,
+  };
+}
@@ -0,0 +1,675 @@
+import { ZuploContext } from "@zuplo/runtime";
+import { getBillingPeriod } from "./billing-period";
+import { BillingProvider, InvoiceCredit, MeteredUsage, RecordUsageResult, resolveCustomerId } from "./billing-provider";
+import {
+  StoreCommand,
+  parseStored,
+  storeCommand,
+  storePipeline,
+  storeTransaction,
+  toHash,
+} from "./durable-store";
+
+/**
+ * Billing Outbox
+ *
+ * Usage is written to the outbox BEFORE any call to Stripe, then delivered
+ * from it. A Stripe 5xx, a timeout or a gateway eviction leaves the usage in
+ * the outbox for a later attempt instead of losing the revenue.
+ *
+ * Aggregation:
+ * - Every billable request adds a pending usage event to its subscription
+ *   item's pending events
+ * - A flush seals each item's pending events into a single batch. Delivering
+ *   the batch sends ONE meter event per billing period the events fall in
+ *   (usually one) to Stripe (see billing-provider.ts), carrying their total
+ *   units and identified by the batch ID and the period start
+ * - An item is flushed when its pending units reach FLUSH_MAX_UNITS, when its
+ *   oldest event is FLUSH_INTERVAL old, or when the billing period its events
+ *   belong to closes within PERIOD_CLOSE_MARGIN (usage must reach Stripe
+ *   before the invoice is finalized)
+ *
+ * Credits:
+ * - Meter events cannot be negative, so money credited back (e.g. for a
+ *   cancelled job) is an invoice credit (see billing-provider.ts), enqueued
+ *   as a batch of its own (invoiceCreditCommands) and delivered like usage.
+ *   The batch ID is derived from the credit's identifier, so enqueueing the
+ *   same credit twice stores it once
+ *
+ * Delivery:
+ * - A batch's meter events are built once, when it is sealed, and their
+ *   identifiers depend only on the batch, which Stripe deduplicates on, so a
+ *   replayed flush or a retried delivery can never bill the same events
+ *   twice. Invoice credits carry their own identifier, sent as Stripe's
+ *   Idempotency-Key
+ * - Usage and credits are billed to the Stripe customer from the consumer's
+ *   metadata when it was known at enqueue time, otherwise to the subscription
+ *   item's customer (resolveCustomerId). A batch whose customer cannot be
+ *   resolved is retried like a failed delivery
+ * - One drain at a time delivers a batch: a short lease on the batch keeps
+ *   concurrent drains (in this or another zone) from sending it in parallel
+ * - A delivery sends at most METER_EVENTS_PER_DELIVERY meter events; the batch
+ *   records which were accepted, and the rest go out on the next drain
+ * - Retryable failures (network, 429, 5xx) back off exponentially:
+ *   30s, 1m, 2m, ... up to MAX_ATTEMPTS
+ * - Permanent failures (other 4xx) and batches that exhaust their attempts
+ *   move to the dead-letter list
+ * - billing-track drains the outbox opportunistically (at most once per
+ *   DRAIN_INTERVAL per isolate, immediately when an item crosses
+ *   FLUSH_MAX_UNITS), and the admin replay route drains it on demand
+ *
+ * Storage: the durable store (see durable-store.ts), so the outbox survives
+ * isolate restarts and is shared by every zone. Nothing is read and written
+ * back; every change is one atomic command or transaction:
+ * - Pending events: one hash per subscription item (outbox:pending:<item>)
+ *   with a field per event, so concurrent requests never overwrite each
+ *   other. outbox:units:<item> counts the item's pending units and the set
+ *   outbox:items lists the items with pending events
+ * - Sealing: one transaction renames an item's pending hash to
+ *   outbox:sealed:<batch> (events enqueued afterwards start a new pending
+ *   hash) and records the batch in outbox:sealing; the batch is then built
+ *   from that hash. A flush that stops in between is completed by the next
+ *   flush once SEAL_TIMEOUT has passed
+ * - Batches: each batch is its own key (outbox:batch:<id>); the open batches
+ *   are indexed in the sorted set outbox:open (scored by next attempt) and the
+ *   dead letters in outbox:dead (scored by when they were dead-lettered).
+ *   Open batches expire after OUTBOX_TTL; dead letters are kept without an
+ *   expiry until they are replayed, so none is lost before finance sees it
+ *
+ * Stripe only remembers identifiers for 24 hours. The backoff schedule
+ * finishes well inside that window; replaying dead letters later than that
+ * relies on finance checking Stripe first (see billing-admin.ts).
+ */
+
+// Keep open batches for 30 days (dead letters are kept until replayed)
+const OUTBOX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Durable store keys
+const PENDING_ITEMS_KEY = "outbox:items";
+const SEALING_KEY = "outbox:sealing";
+const OPEN_BATCHES_KEY = "outbox:open";
+const DEAD_BATCHES_KEY = "outbox:dead";
+
+// How long one drain may hold a batch before another may deliver it
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// How long a seal may stay unfinished before the next flush completes it
+const SEAL_TIMEOUT_MS = 60 * 1000;
+
+// Flush triggers
+const FLUSH_MAX_UNITS = 1000;
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const PERIOD_CLOSE_MARGIN_MS = 15 * 60 * 1000;
+
+// Meter events sent per batch delivery (bounds the requests made by one drain)
+const METER_EVENTS_PER_DELIVERY = 50;
+
+// Retry schedule
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+
+// Opportunistic draining (per isolate)
+const DRAIN_INTERVAL_MS = 30 * 1000;
+const DRAIN_BATCH_SIZE = 10;
+
+let lastDrainAt = 0;
+
+/**
+ * Pending usage event (one per billable request)
+ */
+export interface UsageEvent {
+  id: string;
+  subscriptionItemId: string;
+  stripeCustomerId?: string; // From consumer metadata, once stripe-webhooks has synced it
+  quantity: number;
+  consumer: string;
+  tier: string;
+  billingCycleAnchor?: number; // Epoch ms (see billing-period.ts), undefined for calendar months
+  createdAt: number; // Epoch ms the usage occurred at
+}
+
+/**
+ * Fields supplied by the caller when recording usage
+ */
+export type NewUsageEvent = Pick<
+  UsageEvent,
+  "subscriptionItemId" | "stripeCustomerId" | "quantity" | "consumer" | "tier" | "billingCycleAnchor"
+>;
+
+/**
+ * A meter event or invoice credit, billed to its batch's customer
+ */
+export type BatchEntry<T extends { customerId: string }> = Omit<T, "customerId">;
+
+/**
+ * Sealed usage for one subscription item, delivered as one meter event per
+ * billing period, or an invoice credit (meterEvents empty)
+ */
+export interface UsageBatch {
+  id: string;
+  subscriptionItemId: string;
+  customerId?: string; // Resolved from the subscription item at delivery when not set
+  quantity: number;
+  meterEvents: BatchEntry<MeteredUsage>[];
+  invoiceCredits?: BatchEntry<InvoiceCredit>[];
+  sentIdentifiers: string[]; // Meter events and credits Stripe has accepted
+  eventIds: string[];
+  consumers: string[];
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms
+  createdAt: string;
+  lastError?: string;
+  deadLetteredAt?: string;
+}
+
+/**
+ * Summary of a drain or replay run
+ */
+export interface DrainResult {
+  flushed: number;
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+type DeliveryOutcome = "delivered" | "retrying" | "deadLettered";
+
+function emptyResult(): DrainResult {
+  return { flushed: 0, delivered: 0, retrying: 0, deadLettered: 0 };
+}
+
+function pendingKey(subscriptionItemId: string): string {
+  return `outbox:pending:${subscriptionItemId}`;
+}
+
+function unitsKey(subscriptionItemId: string): string {
+  return `outbox:units:${subscriptionItemId}`;
+}
+
+function sealedKey(batchId: string): string {
+  return `outbox:sealed:${batchId}`;
+}
+
+function batchKey(id: string): string {
+  return `outbox:batch:${id}`;
+}
+
+function leaseKey(id: string): string {
+  return `outbox:lease:${id}`;
+}
+
+/**
+ * Store a batch; dead letters never expire, as they are unbilled revenue until replayed
+ */
+function saveBatch(batch: UsageBatch): StoreCommand {
+  return batch.deadLetteredAt
+    ? ["SET", batchKey(batch.id), JSON.stringify(batch)]
+    : ["SET", batchKey(batch.id), JSON.stringify(batch), "EX", OUTBOX_TTL_SECONDS];
+}
+
+function toEvents(hash: Record<string, string>): UsageEvent[] {
+  return Object.values(hash).map((value) => JSON.parse(value) as UsageEvent);
+}
+
+/**
+ * Decide whether an item's pending events should be flushed now
+ */
+function isFlushDue(events: UsageEvent[], now: number): boolean {
+  const units = events.reduce((sum, event) => sum + event.quantity, 0);
+  const oldestEvent = events.reduce((oldest, event) => (event.createdAt < oldest.createdAt ? event : oldest));
+  const oldest = oldestEvent.createdAt;
+  const periodEnd = getBillingPeriod(oldest, oldestEvent.billingCycleAnchor).end.getTime();
+
+  return (
+    units >= FLUSH_MAX_UNITS ||
+    now - oldest >= FLUSH_INTERVAL_MS ||
+    periodEnd - now <= PERIOD_CLOSE_MARGIN_MS
+  );
+}
+
+/**
+ * Turn a batch's events into meter events
+ *
+ * Each meter event is stamped with the time of the last usage it covers, so
+ * Stripe counts it towards the billing period the usage belongs to.
+ *
+ * @returns BatchEntry<MeteredUsage>[] - One meter event per billing period, oldest first
+ */
+function toMeterEvents(batchId: string, events: UsageEvent[]): BatchEntry<MeteredUsage>[] {
+  const periods = new Map<number, BatchEntry<MeteredUsage>>();
+  for (const event of [...events].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (event.quantity <= 0) continue;
+    const start = Math.floor(getBillingPeriod(event.createdAt, event.billingCycleAnchor).start.getTime() / 1000);
+    const timestamp = Math.floor(event.createdAt / 1000);
+    const meterEvent = periods.get(start);
+    if (meterEvent) {
+      meterEvent.value += event.quantity;
+      meterEvent.timestamp = timestamp;
+    } else {
+      periods.set(start, { value: event.quantity, identifier: `${batchId}-${start}`, timestamp });
+    }
+  }
+  return [...periods.values()];
+}
+
+/**
+ * Write a usage event to the outbox
+ *
+ * Callers should await this before responding so the usage is persisted
+ * even if delivery never gets a chance to run.
+ *
+ * @param input - Subscription item, quantity and consumer details
+ * @param context - Zuplo context
+ * @returns Promise<{ event, flushDue }> - The stored event, and whether its
+ *   item has crossed the size threshold and should be flushed now
+ */
+export async function enqueueUsageEvent(
+  input: NewUsageEvent,
+  context: ZuploContext
+): Promise<{ event: UsageEvent; flushDue: boolean }> {
+  const event: UsageEvent = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  };
+
+  const [, pendingUnits] = await storeTransaction([
+    ["HSET", pendingKey(event.subscriptionItemId), event.id, JSON.stringify(event)],
+    ["INCRBY", unitsKey(event.subscriptionItemId), event.quantity],
+    ["SADD", PENDING_ITEMS_KEY, event.subscriptionItemId],
+  ]);
+
+  context.log.debug(
+    `Billing outbox: enqueued event=${event.id}, consumer=${event.consumer}, quantity=${event.quantity}, ` +
+    `pendingUnits=${pendingUnits}`
+  );
+  return { event, flushDue: Number(pendingUnits) >= FLUSH_MAX_UNITS };
+}
+
+/**
+ * Store commands that write an invoice credit to the outbox, as a batch of its own due now
+ *
+ * Enqueueing a credit whose identifier is already in the outbox does nothing.
+ * Returned as commands so the caller can enqueue the credit in the same
+ * transaction as whatever it credits (see cancellation-credit.ts).
+ *
+ * @param credit - The credit
+ * @param subscriptionItemId - Subscription item the credited usage was billed to
+ * @param stripeCustomerId - Customer to credit, if known (otherwise the item's customer)
+ * @param consumer - Consumer the credit is for
+ * @returns StoreCommand[] - Commands for storeTransaction
+ */
+export function invoiceCreditCommands(
+  credit: BatchEntry<InvoiceCredit>,
+  subscriptionItemId: string,
+  stripeCustomerId: string | undefined,
+  consumer: string
+): StoreCommand[] {
+  const now = Date.now();
+  const batch: UsageBatch = {
+    id: `credit-${credit.identifier}`,
+    subscriptionItemId,
+    customerId: stripeCustomerId,
+    quantity: 0,
+    meterEvents: [],
+    invoiceCredits: [credit],
+    sentIdentifiers: [],
+    eventIds: [],
+    consumers: [consumer],
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: new Date(now).toISOString(),
+  };
+
+  return [
+    ["SET", batchKey(batch.id), JSON.stringify(batch), "NX", "EX", OUTBOX_TTL_SECONDS],
+    ["ZADD", OPEN_BATCHES_KEY, "NX", batch.nextAttemptAt, batch.id],
+  ];
+}
+
+/**
+ * Build the batch for an item's sealed events
+ */
+function toBatch(id: string, subscriptionItemId: string, events: UsageEvent[], now: number): UsageBatch {
+  return {
+    id,
+    subscriptionItemId,
+    customerId: events.find((event) => event.stripeCustomerId)?.stripeCustomerId,
+    quantity: events.reduce((sum, event) => sum + event.quantity, 0),
+    meterEvents: toMeterEvents(id, events),
+    sentIdentifiers: [],
+    eventIds: events.map((event) => event.id),
+    consumers: [...new Set(events.map((event) => event.consumer))],
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Turn a sealed hash into an open batch and drop the hash
+ *
+ * Safe to run twice for the same batch (a slow flush and the one completing
+ * it build the same batch from the same events).
+ *
+ * @returns Promise<UsageBatch | undefined> - The batch, or undefined if the
+ *   seal moved no events
+ */
+async function completeSeal(batchId: string, now: number): Promise<UsageBatch | undefined> {
+  const events = toEvents(toHash(await storeCommand(["HGETALL", sealedKey(batchId)])));
+  const batch = events.length > 0 ? toBatch(batchId, events[0].subscriptionItemId, events, now) : undefined;
+
+  const commands: StoreCommand[] = [
+    ["DEL", sealedKey(batchId)],
+    ["ZREM", SEALING_KEY, batchId],
+  ];
+  if (batch) {
+    commands.unshift(saveBatch(batch), ["ZADD", OPEN_BATCHES_KEY, batch.nextAttemptAt, batch.id]);
+  }
+  await storeTransaction(commands);
+  return batch;
+}
+
+/**
+ * Seal due pending events into one batch per subscription item
+ *
+ * Sealing moves an item's pending events out of the way in one transaction,
+ * so events enqueued meanwhile land in the next batch and a concurrent flush
+ * can never seal the same events again.
+ *
+ * @param context - Zuplo context
+ * @param options.force - Flush every item regardless of the triggers
+ * @returns Promise<UsageBatch[]> - The newly sealed batches
+ */
+export async function flushUsage(
+  context: ZuploContext,
+  options: { force?: boolean } = {}
+): Promise<UsageBatch[]> {
+  const sealed: UsageBatch[] = [];
+  const now = Date.now();
+
+  // Complete seals a previous flush started but did not finish
+  const stalled = await storeCommand<string[]>([
+    "ZRANGE", SEALING_KEY, "-inf", now - SEAL_TIMEOUT_MS, "BYSCORE",
+  ]);
+  for (const batchId of stalled) {
+    const batch = await completeSeal(batchId, now);
+    if (batch) {
+      context.log.warn(`Billing outbox: completed stalled seal: batch=${batchId}`);
+      sealed.push(batch);
+    }
+  }
+
+  const items = await storeCommand<string[]>(["SMEMBERS", PENDING_ITEMS_KEY]);
+  const pending = await storePipeline(items.map((item): StoreCommand => ["HGETALL", pendingKey(item)]));
+
+  for (let i = 0; i < items.length; i++) {
+    const subscriptionItemId = items[i];
+    const events = toEvents(toHash(pending[i]));
+    if (events.length === 0) {
+      // Drop the item from the index, re-adding it if an event arrived meanwhile
+      await storeCommand(["SREM", PENDING_ITEMS_KEY, subscriptionItemId]);
+      if (Number(await storeCommand(["HLEN", pendingKey(subscriptionItemId)])) > 0) {
+        await storeCommand(["SADD", PENDING_ITEMS_KEY, subscriptionItemId]);
+      }
+      continue;
+    }
+    if (!options.force && !isFlushDue(events, now)) continue;
+
+    const batchId = crypto.randomUUID();
+    try {
+      await storeTransaction([
+        ["RENAME", pendingKey(subscriptionItemId), sealedKey(batchId)],
+        ["DEL", unitsKey(subscriptionItemId)],
+        ["SREM", PENDING_ITEMS_KEY, subscriptionItemId],
+        ["ZADD", SEALING_KEY, now, batchId],
+      ]);
+    } catch (error) {
+      // Usually a concurrent flush sealed this item's events first. Whatever
+      // this transaction did apply is completed (or cleared) as a stalled seal
+      context.log.debug(`Billing outbox: item not sealed: subscriptionItemId=${subscriptionItemId}, error=${error}`);
+      continue;
+    }
+
+    const batch = await completeSeal(batchId, now);
+    if (batch) {
+      sealed.push(batch);
+    }
+  }
+
+  if (sealed.length > 0) {
+    context.log.info(
+      `Billing outbox flushed: batches=${sealed.length}, ` +
+      `units=${sealed.reduce((sum, batch) => sum + batch.quantity, 0)}`
+    );
+  }
+  return sealed;
+}
+
+/**
+ * Attempt delivery of one batch's meter events (or invoice credits) to Stripe
+ *
+ * Sends the batch's unsent meter events and credits, up to METER_EVENTS_PER_DELIVERY.
+ * Once all are accepted the batch is removed; if some are left over it stays
+ * due for the next drain. On a retryable failure it is rescheduled with
+ * exponential backoff; otherwise it is moved to the dead-letter list. Either
+ * way the events already accepted are not sent again.
+ *
+ * A batch another drain is delivering is left to it and counts as retrying.
+ *
+ * @param batch - The batch to deliver
+ * @param provider - Billing provider to record the events with
+ * @param context - Zuplo context
+ * @returns Promise<DeliveryOutcome> - What happened to the batch
+ */
+export async function deliverBatch(
+  batch: UsageBatch,
+  provider: BillingProvider,
+  context: ZuploContext
+): Promise<DeliveryOutcome> {
+  const lease = await storeCommand(["SET", leaseKey(batch.id), "1", "NX", "PX", DELIVERY_LEASE_MS]);
+  if (lease === null) {
+    context.log.debug(`Billing outbox: batch is being delivered by another drain: batch=${batch.id}`);
+    return "retrying";
+  }
+
+  // Re-read under the lease: another drain may have sent events since the batch was listed
+  const current = parseStored<UsageBatch>(await storeCommand(["GET", batchKey(batch.id)]));
+  if (!current) {
+    await storeCommand(["DEL", leaseKey(batch.id)]);
+    return "delivered";
+  }
+
+  let result: RecordUsageResult = { ok: true, retryable: false };
+  const customerId = current.customerId ?? (await resolveCustomerId(current.subscriptionItemId, provider, context));
+  if (!customerId) {
+    result = { ok: false, retryable: true, error: `no customer for subscriptionItemId=${current.subscriptionItemId}` };
+  }
+
+  const sent = new Set(current.sentIdentifiers);
+  const credits = current.invoiceCredits ?? [];
+  const unsent = !customerId ? [] : [
+    ...current.meterEvents.map((usage) => ({
+      identifier: usage.identifier,
+      send: () => provider.recordUsage({ ...usage, customerId }, context),
+    })),
+    ...credits.map((credit) => ({
+      identifier: credit.identifier,
+      send: () => provider.creditInvoice({ ...credit, customerId }, context),
+    })),
+  ].filter((entry) => !sent.has(entry.identifier));
+
+  for (const entry of unsent.slice(0, METER_EVENTS_PER_DELIVERY)) {
+    result = await entry.send();
+    if (!result.ok) {
+      break;
+    }
+    sent.add(entry.identifier);
+  }
+
+  const release: StoreCommand = ["DEL", leaseKey(batch.id)];
+
+  if (sent.size === current.meterEvents.length + credits.length) {
+    await storeTransaction([
+      ["ZREM", OPEN_BATCHES_KEY, batch.id],
+      ["ZREM", DEAD_BATCHES_KEY, batch.id],
+      ["DEL", batchKey(batch.id)],
+      release,
+    ]);
+    return "delivered";
+  }
+
+  if (result.ok) {
+    // Delivery limit reached: the rest go out on the next drain
+    await storeTransaction([saveBatch({ ...current, sentIdentifiers: [...sent] }), release]);
+    return "retrying";
+  }
+
+  const updated: UsageBatch = {
+    ...current,
+    sentIdentifiers: [...sent],
+    attempts: current.attempts + 1,
+    lastError: result.error,
+  };
+
+  if (result.retryable && updated.attempts < MAX_ATTEMPTS) {
+    updated.nextAttemptAt = Date.now() + BASE_BACKOFF_MS * 2 ** (updated.attempts - 1);
+    await storeTransaction([
+      saveBatch(updated),
+      ["ZADD", OPEN_BATCHES_KEY, updated.nextAttemptAt, batch.id],
+      release,
+    ]);
+    context.log.warn(
+      `Billing outbox: delivery failed, retrying: batch=${batch.id}, attempts=${updated.attempts}, ` +
+      `nextAttemptAt=${new Date(updated.nextAttemptAt).toISOString()}`
+    );
+    return "retrying";
+  }
+
+  const deadLetteredAt = Date.now();
+  updated.deadLetteredAt = new Date(deadLetteredAt).toISOString();
+  await storeTransaction([
+    saveBatch(updated),
+    ["ZREM", OPEN_BATCHES_KEY, batch.id],
+    ["ZADD", DEAD_BATCHES_KEY, deadLetteredAt, batch.id],
+    release,
+  ]);
+
+  context.log.error(
+    `Billing outbox: batch dead-lettered: batch=${batch.id}, subscriptionItemId=${current.subscriptionItemId}, ` +
+    `quantity=${current.quantity}, attempts=${updated.attempts}, error=${updated.lastError}`
+  );
+  return "deadLettered";
+}
+
+/**
+ * Read the batches listed in an index, in index order
+ */
+async function readBatches(ids: string[]): Promise<UsageBatch[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const stored = await storeCommand<unknown[]>(["MGET", ...ids.map(batchKey)]);
+  return stored
+    .map((value) => parseStored<UsageBatch>(value))
+    .filter((batch): batch is UsageBatch => batch !== undefined);
+}
+
+/**
+ * Flush due usage and deliver batches whose next attempt is due
+ *
+ * @param provider - Billing provider to record usage with
+ * @param context - Zuplo context
+ * @param options.force - Ignore the per-isolate drain interval
+ * @param options.flushAll - Flush every item's pending usage regardless of triggers
+ * @returns Promise<DrainResult> - Counts of flushed, delivered, retrying and dead-lettered batches
+ */
+export async function drainOutbox(
+  provider: BillingProvider,
+  context: ZuploContext,
+  options: { force?: boolean; flushAll?: boolean } = {}
+): Promise<DrainResult> {
+  const result = emptyResult();
+  const now = Date.now();
+
+  if (!options.force && now - lastDrainAt < DRAIN_INTERVAL_MS) {
+    return result;
+  }
+  lastDrainAt = now;
+
+  result.flushed = (await flushUsage(context, { force: options.flushAll })).length;
+
+  const dueIds = await storeCommand<string[]>([
+    "ZRANGE", OPEN_BATCHES_KEY, "-inf", now, "BYSCORE", "LIMIT", 0, DRAIN_BATCH_SIZE,
+  ]);
+  const due = await readBatches(dueIds);
+
+  for (const batch of due) {
+    result[await deliverBatch(batch, provider, context)]++;
+  }
+
+  if (result.flushed > 0 || due.length > 0) {
+    context.log.info(
+      `Billing outbox drained: flushed=${result.flushed}, delivered=${result.delivered}, ` +
+      `retrying=${result.retrying}, deadLettered=${result.deadLettered}`
+    );
+  }
+  return result;
+}
+
+/**
+ * List batches in the dead-letter list
+ *
+ * @param context - Zuplo context
+ * @returns Promise<UsageBatch[]> - Dead-lettered batches, oldest first
+ */
+export async function listDeadLetters(context: ZuploContext): Promise<UsageBatch[]> {
+  const ids = await storeCommand<string[]>(["ZRANGE", DEAD_BATCHES_KEY, 0, -1]);
+  const batches = await readBatches(ids);
+  return batches.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Replay dead-lettered batches
+ *
+ * Each batch keeps its meter events, so they are re-sent with the same
+ * identifiers, values and usage timestamps; events Stripe already accepted
+ * are skipped.
+ *
+ * @param ids - Batch IDs to replay (all dead letters if omitted)
+ * @param provider - Billing provider to record usage with
+ * @param context - Zuplo context
+ * @returns Promise<DrainResult> - Outcome of the replay
+ */
+export async function replayDeadLetters(
+  ids: string[] | undefined,
+  provider: BillingProvider,
+  context: ZuploContext
+): Promise<DrainResult> {
+  const result = emptyResult();
+
+  const batches = (await listDeadLetters(context)).filter(
+    (batch) => !ids || ids.includes(batch.id)
+  );
+
+  for (const batch of batches) {
+    const revived: UsageBatch = {
+      ...batch,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      deadLetteredAt: undefined,
+    };
+    await storeTransaction([
+      saveBatch(revived),
+      ["ZREM", DEAD_BATCHES_KEY, batch.id],
+      ["ZADD", OPEN_BATCHES_KEY, revived.nextAttemptAt, batch.id],
+    ]);
+    result[await deliverBatch(revived, provider, context)]++;
+  }
+
+  context.log.info(
+    `Billing outbox replay: requested=${ids ? ids.length : "all"}, replayed=${batches.length}, ` +
+    `delivered=${result.delivered}, retrying=${result.retrying}, deadLettered=${result.deadLettered}`
+  );
+  return result;
+}
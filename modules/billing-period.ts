@@ -0,0 +1,101 @@
+/**
+ * Billing periods
+ *
+ * A consumer with a Stripe subscription is billed in monthly periods that
+ * start on the subscription's billing cycle anchor: a subscription anchored
+ * at 09:30 UTC on the 17th renews at 09:30 UTC on the 17th of every month.
+ * Anchors late in the month follow Stripe's rule and fall on the last day of
+ * shorter months (an anchor on the 31st renews on 30 April, then 31 May).
+ *
+ * Consumers without a subscription (e.g. free tier) use calendar months in
+ * UTC: a period starts at 00:00 UTC on the 1st and ends when the next one starts.
+ *
+ * The anchor comes from the billingCycleAnchor consumer metadata field (Unix
+ * seconds, as Stripe reports it), kept up to date by stripe-webhooks.
+ */
+
+/**
+ * A billing period (start inclusive, end exclusive)
+ */
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Get the start of the billing period a number of months after the anchor
+ */
+function addMonths(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(anchor.getUTCDate(), lastDay),
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds()
+    )
+  );
+}
+
+/**
+ * Get the billing period containing a point in time
+ *
+ * @param at - Epoch ms or Date (defaults to now)
+ * @param anchor - Billing cycle anchor in epoch ms (undefined for calendar months)
+ * @returns BillingPeriod - The period containing `at`
+ */
+export function getBillingPeriod(at: number | Date = Date.now(), anchor?: number): BillingPeriod {
+  const date = new Date(at);
+  if (anchor === undefined) {
+    return {
+      start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  const anchorDate = new Date(anchor);
+  let months =
+    (date.getUTCFullYear() - anchorDate.getUTCFullYear()) * 12 + date.getUTCMonth() - anchorDate.getUTCMonth();
+  if (addMonths(anchorDate, months) > date) {
+    months -= 1;
+  }
+  return { start: addMonths(anchorDate, months), end: addMonths(anchorDate, months + 1) };
+}
+
+/**
+ * Read the billing cycle anchor from consumer metadata
+ *
+ * @param data - Consumer metadata (request.user.data)
+ * @returns number | undefined - Anchor in epoch ms, or undefined for calendar months
+ */
+export function getBillingCycleAnchor(data: Record<string, unknown> | undefined): number | undefined {
+  const anchor = data?.billingCycleAnchor;
+  return typeof anchor === "number" && Number.isFinite(anchor) ? anchor * 1000 : undefined;
+}
+
+/**
+ * Prorate an allowance across a change made part-way through a period
+ *
+ * Each allowance counts in proportion to the share of the period it applied
+ * to. A change outside the period leaves the current allowance unchanged.
+ *
+ * @param before - Allowance before the change
+ * @param after - Allowance after the change
+ * @param changedAt - Epoch ms the change took effect
+ * @param period - The billing period
+ * @returns number - The prorated allowance, rounded to whole units
+ */
+export function prorate(before: number, after: number, changedAt: number, period: BillingPeriod): number {
+  const start = period.start.getTime();
+  const end = period.end.getTime();
+  if (changedAt <= start || changedAt >= end) {
+    return after;
+  }
+
+  const elapsed = (changedAt - start) / (end - start);
+  return Math.round(before * elapsed + after * (1 - elapsed));
+}
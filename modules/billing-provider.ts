@@ -0,0 +1,424 @@
+import { ZuploContext, environment } from "@zuplo/runtime";
+import billingConfig from "../config/billing.json";
+import {
+  createStripeBalanceCredit,
+  getStripeKey,
+  getStripeMeterConfig,
+  getStripeMeterUsage,
+  getStripeObject,
+  sendStripeMeterEvent,
+  StripeSubscription,
+  StripeSubscriptionItem,
+} from "./stripe";
+import { BillingPeriod } from "./billing-period";
+import { storeCommand } from "./durable-store";
+import { loadPlanCatalog } from "./plans";
+import { createMemoryBillingProvider } from "./billing-memory";
+
+/**
+ * Billing Provider
+ *
+ * The billing operations the gateway needs, kept apart from the service
+ * behind them:
+ * - recordUsage: Report usage for a customer (billing-outbox.ts)
+ * - creditInvoice: Credit an amount to a customer's next invoice (billing-outbox.ts)
+ * - getPeriodUsage: Read a customer's usage for a billing period (usage-counter.ts)
+ * - getSubscription: Read a subscription's current state (stripe-webhooks.ts)
+ * - getSubscriptionItemCustomer: Find the customer a subscription item bills,
+ *   for consumers whose metadata has no customer ID (resolveCustomerId)
+ *
+ * Providers:
+ * - stripe: Stripe Billing Meters. Usage is sent as meter events carrying
+ *   the Stripe customer ID and a unique identifier, which Stripe uses to drop
+ *   duplicates; period usage comes from the meter's event
+ *   summaries. Meter events cannot be negative, so credits are customer
+ *   balance transactions, which Stripe applies to the next invoice
+ * - memory: Usage and subscriptions held in the isolate, seeded from
+ *   config/billing.json (see billing-memory.ts). Needs no keys or network,
+ *   so quota, overage and header behavior can be exercised offline
+ *
+ * Loaded from config/billing.json and validated once at startup (see
+ * zuplo.runtime.ts):
+ * - provider: "stripe" or "memory". The BILLING_PROVIDER environment variable,
+ *   if set, overrides it (e.g. BILLING_PROVIDER=memory in a local .env)
+ * - memory: Seed data for the memory provider
+ *   - subscriptions: Subscriptions getSubscription returns
+ *   - usage: Usage already recorded; entries without a timestamp count
+ *     towards whichever period is read
+ *
+ * Requirements (stripe provider):
+ * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE,
+ *   STRIPE_METER_EVENT_NAME, STRIPE_METER_ID_TEST, STRIPE_METER_ID_LIVE
+ */
+
+/**
+ * Usage reported to the provider (one or more billable actions)
+ */
+export interface MeteredUsage {
+  customerId: string;
+  value: number; // Metered units
+  identifier: string; // Unique per report; repeats are not counted again
+  timestamp: number; // Unix seconds the usage occurred at
+}
+
+/**
+ * A credit to a customer's next invoice
+ * - units: Units the credit is for (informational)
+ */
+export interface InvoiceCredit {
+  customerId: string;
+  amount: number; // Cents
+  units: number;
+  identifier: string; // Unique per credit; repeats are not credited again
+  description: string;
+}
+
+/**
+ * Result of recording usage or a credit
+ * - retryable: true if the same usage may be recorded again later
+ */
+export interface RecordUsageResult {
+  ok: boolean;
+  retryable: boolean;
+  error?: string;
+}
+
+/**
+ * A subscription, as far as the gateway is concerned
+ * - status: Stripe's subscription status vocabulary (active, past_due, canceled, ...)
+ * - tier: Catalog tier of the metered price (undefined if it names no known tier)
+ * - subscriptionItemId: The metered subscription item (undefined if there is none)
+ * - consumer: Consumer the subscription is linked to (metadata.consumer), if set
+ */
+export interface BillingSubscription {
+  id: string;
+  customerId: string;
+  status: string;
+  tier?: string;
+  subscriptionItemId?: string;
+  billingCycleAnchor: number; // Unix seconds
+  consumer?: string;
+}
+
+/**
+ * Billing operations used by billing, quota enforcement and plan sync
+ */
+export interface BillingProvider {
+  name: BillingProviderName;
+  recordUsage(usage: MeteredUsage, context: ZuploContext): Promise<RecordUsageResult>;
+  creditInvoice(credit: InvoiceCredit, context: ZuploContext): Promise<RecordUsageResult>;
+  getPeriodUsage(customerId: string, period: BillingPeriod, context: ZuploContext): Promise<number | undefined>;
+  getSubscription(subscriptionId: string, context: ZuploContext): Promise<BillingSubscription | undefined>;
+  getSubscriptionItemCustomer(subscriptionItemId: string, context: ZuploContext): Promise<string | undefined>;
+}
+
+export type BillingProviderName = "stripe" | "memory";
+
+/**
+ * Seed subscription for the memory provider
+ */
+export interface MemorySubscriptionConfig {
+  id: string;
+  customerId: string;
+  status: string;
+  tier: string;
+  subscriptionItemId: string;
+  billingCycleAnchor: number; // Unix seconds
+  consumer?: string;
+}
+
+/**
+ * Seed usage for the memory provider
+ */
+export interface MemoryUsageConfig {
+  customerId: string;
+  value: number;
+  timestamp?: number; // Unix seconds; undefined counts towards every period
+}
+
+/**
+ * Validated billing config
+ */
+export interface BillingConfig {
+  provider: BillingProviderName;
+  memory: {
+    subscriptions: MemorySubscriptionConfig[];
+    usage: MemoryUsageConfig[];
+  };
+}
+
+/**
+ * Thrown when config/billing.json does not describe a valid config
+ */
+export class BillingConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid billing config:\n- ${issues.join("\n- ")}`);
+    this.name = "BillingConfigError";
+  }
+}
+
+const PROVIDER_NAMES: BillingProviderName[] = ["stripe", "memory"];
+
+// A subscription item never moves to another customer
+const ITEM_CUSTOMER_TTL_SECONDS = 40 * 24 * 60 * 60;
+
+let config: BillingConfig | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isUnixTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a raw billing config object
+ *
+ * Collects every problem rather than stopping at the first one, so a bad
+ * config edit can be fixed in a single pass.
+ *
+ * @param raw - Parsed contents of config/billing.json
+ * @param providerOverride - BILLING_PROVIDER, if set
+ * @returns BillingConfig - The validated config
+ * @throws BillingConfigError - If the config is invalid
+ */
+export function validateBillingConfig(raw: unknown, providerOverride?: string): BillingConfig {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    throw new BillingConfigError(["config must be an object"]);
+  }
+
+  const provider = providerOverride || raw.provider;
+  if (!PROVIDER_NAMES.includes(provider as BillingProviderName)) {
+    issues.push(`provider must be one of ${PROVIDER_NAMES.join(", ")} (got ${JSON.stringify(provider)})`);
+  }
+
+  const memory = raw.memory === undefined ? {} : raw.memory;
+  const subscriptions: MemorySubscriptionConfig[] = [];
+  const usage: MemoryUsageConfig[] = [];
+
+  if (!isRecord(memory)) {
+    issues.push("memory must be an object");
+  } else {
+    const { tiers } = loadPlanCatalog();
+    const rawSubscriptions = memory.subscriptions ?? [];
+    if (!Array.isArray(rawSubscriptions)) {
+      issues.push("memory.subscriptions must be an array");
+    } else {
+      rawSubscriptions.forEach((entry, index) => {
+        const where = `memory.subscriptions[${index}]`;
+        if (!isRecord(entry)) {
+          issues.push(`${where} must be an object`);
+          return;
+        }
+        for (const field of ["id", "customerId", "status", "subscriptionItemId"]) {
+          if (!isNonEmptyString(entry[field])) {
+            issues.push(`${where}.${field} must be a non-empty string`);
+          }
+        }
+        if (!isNonEmptyString(entry.tier) || !tiers[entry.tier]) {
+          issues.push(`${where}.tier must be a tier in config/plans.json`);
+        }
+        if (!isUnixTimestamp(entry.billingCycleAnchor)) {
+          issues.push(`${where}.billingCycleAnchor must be a Unix timestamp (seconds)`);
+        }
+        if (entry.consumer !== undefined && !isNonEmptyString(entry.consumer)) {
+          issues.push(`${where}.consumer must be a non-empty string`);
+        }
+        subscriptions.push(entry as unknown as MemorySubscriptionConfig);
+      });
+    }
+
+    const rawUsage = memory.usage ?? [];
+    if (!Array.isArray(rawUsage)) {
+      issues.push("memory.usage must be an array");
+    } else {
+      rawUsage.forEach((entry, index) => {
+        const where = `memory.usage[${index}]`;
+        if (!isRecord(entry)) {
+          issues.push(`${where} must be an object`);
+          return;
+        }
+        if (!isNonEmptyString(entry.customerId)) {
+          issues.push(`${where}.customerId must be a non-empty string`);
+        }
+        if (typeof entry.value !== "number" || !Number.isInteger(entry.value) || entry.value < 0) {
+          issues.push(`${where}.value must be a non-negative integer`);
+        }
+        if (entry.timestamp !== undefined && !isUnixTimestamp(entry.timestamp)) {
+          issues.push(`${where}.timestamp must be a Unix timestamp (seconds)`);
+        }
+        usage.push(entry as unknown as MemoryUsageConfig);
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new BillingConfigError(issues);
+  }
+  return { provider: provider as BillingProviderName, memory: { subscriptions, usage } };
+}
+
+/**
+ * Load and validate the billing config (cached after the first call)
+ *
+ * @returns BillingConfig - The validated config
+ * @throws BillingConfigError - If config/billing.json or BILLING_PROVIDER is invalid
+ */
+export function loadBillingConfig(): BillingConfig {
+  if (!config) {
+    config = validateBillingConfig(billingConfig, environment.BILLING_PROVIDER);
+  }
+  return config;
+}
+
+/**
+ * Normalize a Stripe subscription object
+ */
+function toBillingSubscription(subscription: StripeSubscription): BillingSubscription {
+  const items = subscription.items?.data ?? [];
+  const item = items.find((candidate) => candidate.price?.recurring?.usage_type === "metered");
+  const tier = item?.price?.metadata?.tier || item?.price?.lookup_key;
+
+  return {
+    id: subscription.id,
+    customerId: typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id,
+    status: subscription.status,
+    tier: typeof tier === "string" && loadPlanCatalog().tiers[tier] ? tier : undefined,
+    subscriptionItemId: item?.id,
+    billingCycleAnchor: subscription.billing_cycle_anchor,
+    consumer: subscription.metadata?.consumer || undefined,
+  };
+}
+
+/**
+ * Create the Stripe provider
+ *
+ * @returns BillingProvider | undefined - The provider, or undefined if the
+ *   Stripe key or meter is not configured (logged)
+ */
+function createStripeBillingProvider(context: ZuploContext): BillingProvider | undefined {
+  const stripeKey = getStripeKey(context);
+  const meter = getStripeMeterConfig(context);
+  if (!stripeKey || !meter) {
+    return undefined;
+  }
+
+  return {
+    name: "stripe",
+    recordUsage: (usage, ctx) =>
+      sendStripeMeterEvent(
+        meter.eventName,
+        usage.customerId,
+        usage.value,
+        usage.identifier,
+        usage.timestamp,
+        stripeKey,
+        ctx
+      ),
+    creditInvoice: (credit, ctx) =>
+      createStripeBalanceCredit(
+        credit.customerId,
+        credit.amount,
+        credit.identifier,
+        credit.description,
+        stripeKey,
+        ctx
+      ),
+    getPeriodUsage: (customerId, period, ctx) =>
+      getStripeMeterUsage(
+        meter.meterId,
+        customerId,
+        Math.floor(period.start.getTime() / 1000),
+        Math.ceil(period.end.getTime() / 1000),
+        stripeKey,
+        ctx
+      ),
+    getSubscription: async (subscriptionId, ctx) => {
+      const subscription = await getStripeObject<StripeSubscription>(
+        `subscriptions/${encodeURIComponent(subscriptionId)}`,
+        stripeKey,
+        ctx
+      );
+      return subscription ? toBillingSubscription(subscription) : undefined;
+    },
+    getSubscriptionItemCustomer: async (subscriptionItemId, ctx) => {
+      const item = await getStripeObject<StripeSubscriptionItem>(
+        `subscription_items/${encodeURIComponent(subscriptionItemId)}`,
+        stripeKey,
+        ctx
+      );
+      if (!item?.subscription) {
+        return undefined;
+      }
+      const subscription = await getStripeObject<StripeSubscription>(
+        `subscriptions/${encodeURIComponent(item.subscription)}`,
+        stripeKey,
+        ctx
+      );
+      return subscription ? toBillingSubscription(subscription).customerId : undefined;
+    },
+  };
+}
+
+/**
+ * Find the customer a subscription item bills
+ *
+ * Consumer metadata only carries stripeCustomerId once stripe-webhooks has
+ * synced it, so usage and credits for other consumers are attributed through
+ * their subscription item. The answer is cached in the durable store
+ * (billing:item-customer:<item>); a store failure falls back to the provider.
+ *
+ * @param subscriptionItemId - The subscription item
+ * @param provider - Billing provider to ask on a cache miss
+ * @param context - Zuplo context
+ * @returns Promise<string | undefined> - The customer ID, or undefined if the
+ *   provider does not know the item or could not be reached
+ */
+export async function resolveCustomerId(
+  subscriptionItemId: string,
+  provider: BillingProvider,
+  context: ZuploContext
+): Promise<string | undefined> {
+  const key = `billing:item-customer:${subscriptionItemId}`;
+  try {
+    const cached = await storeCommand<string | null>(["GET", key]);
+    if (cached) {
+      return cached;
+    }
+  } catch (error) {
+    context.log.warn(`Subscription item customer cache read failed: ${error}`);
+  }
+
+  const customerId = await provider.getSubscriptionItemCustomer(subscriptionItemId, context);
+  if (!customerId) {
+    context.log.warn(`Customer not resolved for subscription item: subscriptionItemId=${subscriptionItemId}`);
+    return undefined;
+  }
+  try {
+    await storeCommand(["SET", key, customerId, "EX", ITEM_CUSTOMER_TTL_SECONDS]);
+  } catch (error) {
+    context.log.warn(`Subscription item customer cache write failed: ${error}`);
+  }
+  return customerId;
+}
+
+/**
+ * Get the configured billing provider
+ *
+ * @param context - Zuplo context with env vars and logging
+ * @returns BillingProvider | undefined - The provider, or undefined if the
+ *   Stripe provider is selected but not configured (logged)
+ */
+export function getBillingProvider(context: ZuploContext): BillingProvider | undefined {
+  const { provider, memory } = loadBillingConfig();
+  if (provider === "memory") {
+    return createMemoryBillingProvider(memory);
+  }
+  return createStripeBillingProvider(context);
+}
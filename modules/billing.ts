@@ -1,69 +1,40 @@
 import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
 import { QuotaInfo } from "./quota-enforcement";
+import { resolveBilledUnits } from "./metering";
+import { estimateOverageCost } from "./plans";
+import { getUsageCounterRef, incrementUsage } from "./usage-counter";
+import { UsageEvent, drainOutbox, enqueueUsageEvent } from "./billing-outbox";
+import { getBillingProvider } from "./billing-provider";
+import { getAccountId, getKeyUsageRef } from "./organizations";
 
 /**
  * Stripe Billing Tracking - Outbound Policy
  *
- * Tracks successful API requests (2xx status codes) by sending usage records to Stripe.
+ * Tracks successful API requests (2xx status codes) by reporting their usage to Stripe.
  * This runs AFTER the backend responds, ensuring billing only occurs for successful requests.
  *
+ * Usage is written to the billing outbox first, batched per subscription item
+ * and delivered from there as one Stripe meter event per batch, with retries
+ * and a deterministic identifier per event (see billing-outbox.ts). Usage is
+ * billed to the consumer's stripeCustomerId, or to the subscription item's
+ * customer until stripe-webhooks has synced it.
+ *
+ * Each request is billed for the units it consumed (see metering.ts): the backend's
+ * X-Units-Consumed header if present, otherwise the estimate from quota-enforcement.
+ * Routes declared with x-billing.billable = false in routes.oas.json are never billed.
+ *
  * Now includes overage detection and logging for transparency.
  *
- * Error handling: Failures are logged but don't block user requests (graceful degradation).
+ * Error handling: Delivery failures are retried from the outbox and never block user
+ * requests (graceful degradation). Only a failed outbox write loses the usage, and is
+ * logged as an error.
  *
  * Requirements:
- * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE
- * - Consumer metadata: stripeSubscriptionId, stripeSubscriptionItemId
- */
-
-/**
- * Send usage record to Stripe API
- *
- * @param subscriptionItemId - Stripe subscription item ID
- * @param quantity - Usage quantity (typically 1 per request)
- * @param stripeKey - Stripe API secret key
- * @param context - Zuplo context for logging
- * @returns Promise<boolean> - true on success, false on failure
+ * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE,
+ *   STRIPE_METER_EVENT_NAME, STRIPE_METER_ID_TEST, STRIPE_METER_ID_LIVE
+ * - Consumer metadata: stripeSubscriptionId, stripeSubscriptionItemId, stripeCustomerId (optional),
+ *   billingCycleAnchor
  */
-async function sendStripeUsageRecord(
-  subscriptionItemId: string,
-  quantity: number,
-  stripeKey: string,
-  context: ZuploContext
-): Promise<boolean> {
-  const timestamp = Math.floor(Date.now() / 1000);
-
-  try {
-    const response = await fetch(
-      `https://api.stripe.com/v1/subscription_items/${subscriptionItemId}/usage_records`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${stripeKey}`,
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: `quantity=${quantity}&timestamp=${timestamp}&action=increment`,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      context.log.error(
-        `Stripe usage record failed: status=${response.status}, error=${errorText}`
-      );
-      return false;
-    }
-
-    const data = await response.json();
-    context.log.info(
-      `Stripe usage record created: id=${data.id}, quantity=${quantity}, timestamp=${timestamp}`
-    );
-    return true;
-  } catch (error) {
-    context.log.error(`Stripe API request failed: ${error}`);
-    return false;
-  }
-}
 
 /**
  * Outbound policy to track billing for successful API requests
@@ -71,8 +42,12 @@ async function sendStripeUsageRecord(
  * This policy:
  * 1. Checks if the response was successful (2xx status code)
  * 2. Retrieves Stripe subscription info from user metadata
- * 3. Sends a usage record to Stripe API
- * 4. Gracefully handles errors without impacting user requests
+ * 3. Resolves the units consumed by the request
+ * 4. Increments the consumer's usage counter (read by quota-enforcement); for
+ *    organization members, the organization's counter and the key's own
+ * 5. Writes a usage event to the billing outbox
+ * 6. Drains the outbox in the background (flushes due usage, delivers due batches)
+ * 7. Gracefully handles errors without impacting user requests
  *
  * @param response - The backend response
  * @param request - The original Zuplo request with user data
@@ -101,9 +76,31 @@ export default async function (
 
   // Extract Stripe subscription info from user metadata
   const subscriptionId = user.data?.stripeSubscriptionId as string | undefined;
-  const subscriptionItemId = user.data?.stripeSubscriptionItemId as string | undefined;
+  const usageRef = getUsageCounterRef(getAccountId(user), user.data);
+  const subscriptionItemId = usageRef.subscriptionItemId;
   const tier = user.data?.tier as string | undefined;
 
+  // Get quota info if available (from quota-enforcement policy)
+  const quotaInfo = user.data?.quotaInfo as QuotaInfo | undefined;
+
+  // Resolve units consumed (backend-reported, or the inbound estimate)
+  const units = resolveBilledUnits(response, context, quotaInfo?.requestUnits);
+  if (units === 0) {
+    context.log.debug(`Skipping billing: 0 units (free route or no work) for user=${user.sub}`);
+    return response;
+  }
+
+  // Count the usage locally so quota state is accurate to the request
+  try {
+    await incrementUsage(usageRef, units, context);
+    const keyRef = getKeyUsageRef(user);
+    if (keyRef) {
+      await incrementUsage(keyRef, units, context);
+    }
+  } catch (error) {
+    context.log.warn(`Usage counter increment failed: user=${user.sub}, units=${units}, error=${error}`);
+  }
+
   // Validate required Stripe metadata
   if (!subscriptionItemId) {
     // This is expected for free tier or users without subscriptions
@@ -113,51 +110,57 @@ export default async function (
     return response;
   }
 
-  // Get Stripe API key from environment
-  const stripeMode = context.env.STRIPE_MODE || "test";
-  const stripeKey = stripeMode === "live"
-    ? context.env.STRIPE_SECRET_KEY_LIVE
-    : context.env.STRIPE_SECRET_KEY_TEST;
-
-  if (!stripeKey) {
+  // Persist the usage event before anything else can fail
+  let event: UsageEvent;
+  let flushDue: boolean;
+  try {
+    ({ event, flushDue } = await enqueueUsageEvent(
+      {
+        subscriptionItemId,
+        stripeCustomerId: usageRef.stripeCustomerId,
+        quantity: units,
+        consumer: user.sub,
+        tier: tier || "free",
+        billingCycleAnchor: usageRef.billingCycleAnchor,
+      },
+      context
+    ));
+  } catch (error) {
     context.log.error(
-      `Stripe key not configured: mode=${stripeMode}, missing STRIPE_SECRET_KEY_${stripeMode.toUpperCase()}`
+      `Billing outbox write failed (usage lost): user=${user.sub}, tier=${tier}, units=${units}, error=${error}`
     );
     return response;
   }
 
-  // Get quota info if available (from quota-enforcement policy)
-  const quotaInfo = user.data?.quotaInfo as QuotaInfo | undefined;
+  // Check for overage and log accordingly
+  if (quotaInfo?.isOverage) {
+    const estimatedCost = estimateOverageCost(quotaInfo.overage, quotaInfo.overageRate);
+    context.log.warn(
+      `Billing tracked (OVERAGE): user=${user.sub}, tier=${tier}, units=${units}, ` +
+      `overage=${quotaInfo.overage}, estimatedCost=$${estimatedCost.toFixed(2)}, ` +
+      `rate=$${quotaInfo.overageRate}/1k, event=${event.id}`
+    );
+  } else {
+    context.log.info(
+      `Billing tracked: user=${user.sub}, tier=${tier}, units=${units}, ` +
+      `subscriptionItemId=${subscriptionItemId}, event=${event.id}`
+    );
+  }
+
+  // Without a configured billing provider the usage stays in the outbox until there is one
+  const provider = getBillingProvider(context);
+  if (!provider) {
+    return response;
+  }
 
-  // Send usage record to Stripe (async, non-blocking)
-  // We don't await to avoid delaying the response to the user
-  sendStripeUsageRecord(subscriptionItemId, 1, stripeKey, context)
-    .then((success) => {
-      if (success) {
-        // Check for overage and log accordingly
-        if (quotaInfo?.isOverage) {
-          const estimatedCost = (quotaInfo.overage / 1000) * quotaInfo.overageRate;
-          context.log.warn(
-            `Billing tracked (OVERAGE): user=${user.sub}, tier=${tier}, ` +
-            `overage=${quotaInfo.overage}, estimatedCost=$${estimatedCost.toFixed(2)}, ` +
-            `rate=$${quotaInfo.overageRate}/1k`
-          );
-        } else {
-          context.log.info(
-            `Billing tracked: user=${user.sub}, tier=${tier}, subscriptionItemId=${subscriptionItemId}`
-          );
-        }
-      } else {
-        context.log.warn(
-          `Billing failed (non-blocking): user=${user.sub}, tier=${tier}`
-        );
-      }
+  // Drain in the background; don't delay the response to the user.
+  // Crossing the size threshold flushes immediately instead of waiting for the interval.
+  context.waitUntil(
+    drainOutbox(provider, context, { force: flushDue }).catch((error) => {
+      // The usage is still in the outbox and will be picked up by a later drain
+      context.log.error(`Billing drain error: event=${event.id}, error=${error}`);
     })
-    .catch((error) => {
-      // This should never happen since sendStripeUsageRecord catches errors
-      context.log.error(`Unexpected billing error: ${error}`);
-    });
+  );
 
-  // Return the original response immediately (don't wait for Stripe)
   return response;
 }
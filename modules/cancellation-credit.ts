@@ -0,0 +1,166 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { QuotaInfo } from "./quota-enforcement";
+import { claimJobCredit, getJob, releaseJobCredit } from "./jobs";
+import { getCurrentUsage, getUsageCounterRef, usageCreditCommands } from "./usage-counter";
+import { invoiceCreditCommands } from "./billing-outbox";
+import { getBillingPeriod } from "./billing-period";
+import { StoreCommand, storeTransaction } from "./durable-store";
+import { getAccountId, getKeyUsageRef } from "./organizations";
+import { estimateOverageCost } from "./plans";
+
+/**
+ * Cancellation Credit - Outbound Policy
+ *
+ * When a crawl job is cancelled (DELETE /crawl/job/{jobId}), credits back the
+ * units charged for the URLs the backend never processed.
+ *
+ * The backend's cancel response reports how far the job got:
+ *   { "job_id": "...", "status": "cancelled", "urls_processed": 3 }
+ * The credit is the job's charged units (recorded at submission by
+ * job-tracking) in proportion to its unprocessed URLs, rounded down. A job is
+ * credited once: the first cancellation claims the credit on the job record
+ * (see jobs.ts), and any later or concurrent cancellation gets nothing.
+ *
+ * The credit follows what the submission was billed, not the quota state at
+ * cancellation:
+ * - It is credited back to the usage counter of the billing period the job
+ *   was billed in (see usage-counter.ts), and for organization members the
+ *   key's own counter too. A job cancelled in the period it was submitted
+ *   frees the units for the rest of that period; one cancelled after the
+ *   period rolled over does not lower the new period's usage
+ * - The units that were billed as overage at submission are credited first
+ *   (the unprocessed URLs are the tail of the submission), to the customer's
+ *   next invoice at the overage rate they were billed at, through the billing
+ *   outbox (see billing-outbox.ts), identified by the job so it is paid out once
+ * - Updates quotaInfo, so quota-headers (which must run after this policy)
+ *   reports the usage after the credit and X-Quota-Units-Credited
+ *
+ * The counter and invoice credits are applied in one store transaction after
+ * the claim; if that fails, the claim is released so a retried cancellation
+ * can earn the credit.
+ *
+ * Responses without urls_processed, and jobs submitted before their size was
+ * recorded, get no credit. Error handling: failures are logged and the
+ * response is returned unchanged.
+ */
+
+/**
+ * Work out the units to credit for a cancelled job
+ *
+ * @returns number - Units to credit (0 if nothing is owed)
+ */
+function creditFor(urlCount: number, unitsCharged: number, processed: number): number {
+  const unprocessed = Math.max(0, urlCount - processed);
+  return Math.min(Math.floor((unitsCharged * unprocessed) / urlCount), unitsCharged);
+}
+
+/**
+ * Outbound policy to credit unprocessed URLs of a cancelled job
+ *
+ * @param response - The backend's cancel response
+ * @param request - The original Zuplo request with user data
+ * @param context - The Zuplo context
+ * @returns The original response (unmodified)
+ */
+export default async function (
+  response: Response,
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<Response> {
+  const user = request.user;
+  const jobId = request.params.jobId;
+  if (!response.ok || !user || !jobId) {
+    return response;
+  }
+
+  try {
+    const job = await getJob(jobId, context);
+    if (!job?.urlCount || !job.unitsCharged) {
+      context.log.debug(`No cancellation credit: jobId=${jobId}, submission size not recorded`);
+      return response;
+    }
+
+    let processed: unknown;
+    try {
+      processed = (await response.clone().json())?.urls_processed;
+    } catch {
+      processed = undefined;
+    }
+    if (!Number.isInteger(processed) || (processed as number) < 0) {
+      context.log.warn(`No cancellation credit: jobId=${jobId}, backend did not report urls_processed`);
+      return response;
+    }
+
+    const credit = creditFor(job.urlCount, job.unitsCharged, processed as number);
+    if (credit === 0) {
+      return response;
+    }
+
+    // Claim the credit on the job first, so a repeated or concurrent cancel cannot earn it twice
+    if (!(await claimJobCredit(jobId, credit, context))) {
+      context.log.info(`No cancellation credit: jobId=${jobId}, already credited`);
+      return response;
+    }
+
+    const quotaInfo = user.data?.quotaInfo as QuotaInfo | undefined;
+    const usageRef = getUsageCounterRef(getAccountId(user), user.data);
+    const keyRef = getKeyUsageRef(user);
+    const periodStart =
+      job.billingPeriodStart ?? getBillingPeriod(job.createdAt, usageRef.billingCycleAnchor).start.getTime();
+    const commands: StoreCommand[] = [
+      ...usageCreditCommands(usageRef, credit, periodStart),
+      ...(keyRef ? usageCreditCommands(keyRef, credit, periodStart) : []),
+    ];
+
+    const overageUnits = Math.min(credit, job.overageUnits ?? 0);
+    const amount = Math.round(estimateOverageCost(overageUnits, job.overageRate ?? 0) * 100);
+    if (amount > 0 && usageRef.subscriptionItemId) {
+      commands.push(
+        ...invoiceCreditCommands(
+          {
+            amount,
+            units: overageUnits,
+            identifier: `job-${jobId}`,
+            description: `Credit for ${overageUnits} unprocessed units of cancelled job ${jobId}`,
+          },
+          usageRef.subscriptionItemId,
+          usageRef.stripeCustomerId,
+          user.sub
+        )
+      );
+    }
+
+    try {
+      await storeTransaction(commands);
+    } catch (error) {
+      await releaseJobCredit(jobId, context);
+      throw error;
+    }
+
+    if (quotaInfo) {
+      const used = await getCurrentUsage(usageRef, undefined, context);
+      quotaInfo.used = used;
+      quotaInfo.remaining = Math.max(0, quotaInfo.limit - used);
+      quotaInfo.overage = Math.max(0, used - quotaInfo.limit);
+      quotaInfo.isOverage = used >= quotaInfo.limit;
+      quotaInfo.unitsCredited = credit;
+      if (keyRef) {
+        const keyUsed = await getCurrentUsage(keyRef, undefined, context);
+        quotaInfo.keyUsed = keyUsed;
+        if (quotaInfo.keyLimit !== undefined) {
+          quotaInfo.keyRemaining = Math.max(0, quotaInfo.keyLimit - keyUsed);
+        }
+      }
+    }
+
+    context.log.info(
+      `Cancellation credited: user=${user.sub}, jobId=${jobId}, processed=${processed}/${job.urlCount}, ` +
+        `credit=${credit}/${job.unitsCharged} units, period=${new Date(periodStart).toISOString()}, ` +
+        `invoiceCredit=${amount} cents`
+    );
+  } catch (error) {
+    context.log.error(`Cancellation credit failed: user=${user.sub}, jobId=${jobId}, error=${error}`);
+  }
+
+  return response;
+}
@@ -0,0 +1,85 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { getPlan } from "./plans";
+import { limitExceededProblem } from "./rate-limiting";
+import { SlotKind, reserveJobSlot } from "./jobs";
+
+/**
+ * Concurrent Job Limit - Inbound Policy
+ *
+ * Caps how many crawl jobs a consumer can have running on the backend at once,
+ * using the tier's maxConcurrentJobs from the plan catalog (config/plans.json).
+ *
+ * Attach to job submission routes (POST /crawl/job), after api-key-auth.
+ * job-tracking must run on the same route (outbound) to turn the reserved slot
+ * into a tracked job, and on GET /crawl/job/{jobId} to free it again.
+ *
+ * With slot "stream" (GET /crawl/job/{jobId}/events) the slot is held for as
+ * long as the event stream stays open; job-tracking frees it when the stream ends.
+ *
+ * Error handling: Registry failures are logged and the request is allowed (fail open)
+ *
+ * Options:
+ * - slot: "job" | "stream" - What the slot is held for (default "job")
+ */
+
+interface ConcurrencyLimitOptions {
+  slot?: SlotKind;
+}
+
+/**
+ * Inbound policy to enforce the concurrent job limit
+ *
+ * This policy:
+ * 1. Looks up the consumer's concurrent job limit
+ * 2. Reserves an in-flight slot for this submission or stream (see jobs.ts)
+ * 3. Rejects with 429 (limitType "concurrency") when every slot is taken
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param options - Policy options (slot)
+ * @param policyName - The name of the policy being applied
+ * @returns The request, or a 429 response
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: ConcurrencyLimitOptions | undefined,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  const consumer = request.user?.sub;
+  if (!consumer) {
+    return request;
+  }
+
+  const tier = (request.user?.data?.tier as string) || "free";
+  const { maxConcurrentJobs } = getPlan(tier);
+  const kind = options?.slot ?? "job";
+
+  let slot: { reserved: boolean; inFlight: number };
+  try {
+    slot = await reserveJobSlot(consumer, context.requestId, maxConcurrentJobs, context, kind);
+  } catch (error) {
+    context.log.warn(`Concurrent job check failed (allowing): ${error}`);
+    return request;
+  }
+
+  if (!slot.reserved) {
+    context.log.warn(
+      `Concurrent job limit reached: user=${consumer}, tier=${tier}, inFlight=${slot.inFlight}, limit=${maxConcurrentJobs}`
+    );
+    const action = kind === "stream" ? "opening another event stream" : "submitting another";
+    return limitExceededProblem(
+      request,
+      context,
+      "concurrency",
+      `Your ${tier} plan allows ${maxConcurrentJobs} concurrent crawl jobs and event streams, and ` +
+        `${slot.inFlight} are still open. Wait for one to finish before ${action}.`,
+      { limit: maxConcurrentJobs, inFlight: slot.inFlight }
+    );
+  }
+
+  context.log.debug(
+    `${kind === "stream" ? "Stream" : "Job"} slot reserved: user=${consumer}, inFlight=${slot.inFlight + 1}/${maxConcurrentJobs}`
+  );
+  return request;
+}
@@ -0,0 +1,112 @@
+import { ZuploContext, environment } from "@zuplo/runtime";
+
+/**
+ * Consumer metadata updates via the Zuplo Developer API
+ *
+ * API key consumers carry the metadata the policies read from request.user.data
+ * (tier, stripeSubscriptionItemId, ...). This module updates that metadata.
+ * api-key-auth caches consumers briefly, so changes apply within about a minute.
+ *
+ * Requirements:
+ * - Environment variables: ZUPLO_DEVELOPER_API_KEY, ZUPLO_ACCOUNT_NAME, ZUPLO_API_KEY_BUCKET
+ */
+
+const ZUPLO_DEVELOPER_API = "https://dev.zuplo.com/v1";
+
+/**
+ * Consumer as returned by the Zuplo Developer API
+ */
+export interface Consumer {
+  name: string;
+  metadata: Record<string, unknown>;
+  tags?: Record<string, string>;
+}
+
+/**
+ * Thrown when the Developer API is not configured or rejects a call
+ */
+export class ConsumerApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ConsumerApiError";
+  }
+}
+
+function getConsumerUrl(consumerName: string): string {
+  const account = environment.ZUPLO_ACCOUNT_NAME;
+  const bucket = environment.ZUPLO_API_KEY_BUCKET;
+  if (!account || !bucket || !environment.ZUPLO_DEVELOPER_API_KEY) {
+    throw new ConsumerApiError(
+      "Zuplo Developer API not configured (ZUPLO_DEVELOPER_API_KEY, ZUPLO_ACCOUNT_NAME, ZUPLO_API_KEY_BUCKET)"
+    );
+  }
+  return `${ZUPLO_DEVELOPER_API}/accounts/${account}/key-buckets/${bucket}/consumers/${encodeURIComponent(consumerName)}`;
+}
+
+async function callDeveloperApi(url: string, init: RequestInit = {}): Promise<Consumer> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${environment.ZUPLO_DEVELOPER_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new ConsumerApiError(
+      `Zuplo Developer API ${init.method || "GET"} failed: status=${response.status}, error=${await response.text()}`,
+      response.status
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Get a consumer by name
+ *
+ * @param consumerName - Consumer name (request.user.sub)
+ * @returns Promise<Consumer> - The consumer with its metadata
+ * @throws ConsumerApiError - If the API is not configured or the call fails
+ */
+export async function getConsumer(consumerName: string): Promise<Consumer> {
+  return callDeveloperApi(getConsumerUrl(consumerName));
+}
+
+/**
+ * Merge fields into a consumer's metadata
+ *
+ * Fields set to undefined are removed from the metadata.
+ *
+ * @param consumerName - Consumer name (request.user.sub)
+ * @param changes - Metadata fields to set or remove
+ * @param context - Zuplo context for logging
+ * @returns Promise<Consumer> - The updated consumer
+ * @throws ConsumerApiError - If the API is not configured or the call fails
+ */
+export async function updateConsumerMetadata(
+  consumerName: string,
+  changes: Record<string, unknown>,
+  context: ZuploContext
+): Promise<Consumer> {
+  const url = getConsumerUrl(consumerName);
+  const consumer = await callDeveloperApi(url);
+
+  const metadata: Record<string, unknown> = { ...consumer.metadata };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  const updated = await callDeveloperApi(url, {
+    method: "PATCH",
+    body: JSON.stringify({ metadata }),
+  });
+
+  context.log.info(
+    `Consumer metadata updated: consumer=${consumerName}, fields=${Object.keys(changes).join(",")}`
+  );
+  return updated;
+}
@@ -0,0 +1,338 @@
+import { DurableStore, DurableStoreError, StoreCommand } from "./durable-store";
+
+/**
+ * Memory Durable Store
+ *
+ * A durable store for local development and tests (see durable-store.ts),
+ * selected with DURABLE_STORE_URL=memory. Implements the subset of Redis
+ * commands the gateway uses, with the same replies as the REST API.
+ *
+ * State lives in the isolate and is lost when the gateway restarts. Isolates
+ * do not share it, so use a single-instance local gateway. Commands run
+ * synchronously, so every exec is atomic within the isolate.
+ */
+
+type Value = string | Map<string, string> | Map<string, number> | Set<string>;
+
+interface Entry {
+  value: Value;
+  expiresAt?: number;
+}
+
+let data: Map<string, Entry> | undefined;
+
+function fail(message: string): never {
+  throw new DurableStoreError(`Durable store command failed: ${message}`);
+}
+
+function toInteger(value: string | number | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    fail("ERR value is not an integer or out of range");
+  }
+  return parsed;
+}
+
+function parseBound(value: string | number): { score: number; exclusive: boolean } {
+  const text = String(value);
+  const exclusive = text.startsWith("(");
+  const raw = exclusive ? text.slice(1) : text;
+  const score = raw === "-inf" ? -Infinity : raw === "+inf" || raw === "inf" ? Infinity : Number(raw);
+  if (Number.isNaN(score)) {
+    fail("ERR min or max is not a float");
+  }
+  return { score, exclusive };
+}
+
+function aboveMin(score: number, min: { score: number; exclusive: boolean }): boolean {
+  return min.exclusive ? score > min.score : score >= min.score;
+}
+
+function belowMax(score: number, max: { score: number; exclusive: boolean }): boolean {
+  return max.exclusive ? score < max.score : score <= max.score;
+}
+
+function sortedMembers(zset: Map<string, number>): [string, number][] {
+  return [...zset.entries()].sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+}
+
+// Resolve ZRANGE-style start/stop indexes (negative counts from the end) to a slice
+function rankRange(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+  return [from, to + 1];
+}
+
+function run(store: Map<string, Entry>, command: StoreCommand): unknown {
+  const [name, ...args] = command;
+  const key = String(args[0]);
+  const now = Date.now();
+
+  const live = (k: string): Entry | undefined => {
+    const entry = store.get(k);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= now) {
+      store.delete(k);
+      return undefined;
+    }
+    return entry;
+  };
+  const read = <T extends Value>(k: string, is: (value: Value) => boolean): T | undefined => {
+    const entry = live(k);
+    if (entry && !is(entry.value)) {
+      fail("WRONGTYPE Operation against a key holding the wrong kind of value");
+    }
+    return entry?.value as T | undefined;
+  };
+  const isString = (value: Value) => typeof value === "string";
+  const isHash = (value: Value) => value instanceof Map && [...value.values()].every((v) => typeof v === "string");
+  const isZset = (value: Value) => value instanceof Map && [...value.values()].every((v) => typeof v === "number");
+  const isSet = (value: Value) => value instanceof Set;
+  const hash = (create: boolean): Map<string, string> | undefined => {
+    let value = read<Map<string, string>>(key, isHash);
+    if (!value && create) {
+      value = new Map();
+      store.set(key, { value });
+    }
+    return value;
+  };
+  const zset = (create: boolean): Map<string, number> | undefined => {
+    let value = read<Map<string, number>>(key, isZset);
+    if (!value && create) {
+      value = new Map();
+      store.set(key, { value });
+    }
+    return value;
+  };
+  const set = (create: boolean): Set<string> | undefined => {
+    let value = read<Set<string>>(key, isSet);
+    if (!value && create) {
+      value = new Set();
+      store.set(key, { value });
+    }
+    return value;
+  };
+  const dropIfEmpty = (value: Map<string, unknown> | Set<string> | undefined) => {
+    if (value && value.size === 0) {
+      store.delete(key);
+    }
+  };
+  const options = args.slice(1).map((arg) => String(arg).toUpperCase());
+
+  switch (name.toUpperCase()) {
+    case "GET":
+      return read<string>(key, isString) ?? null;
+    case "MGET":
+      return args.map((k) => read<string>(String(k), isString) ?? null);
+    case "SET": {
+      const nx = options.includes("NX");
+      if (nx && live(key)) {
+        return null;
+      }
+      const entry: Entry = { value: String(args[1]) };
+      const px = options.indexOf("PX");
+      const ex = options.indexOf("EX");
+      if (px >= 0) {
+        entry.expiresAt = now + toInteger(args[px + 2]);
+      } else if (ex >= 0) {
+        entry.expiresAt = now + toInteger(args[ex + 2]) * 1000;
+      }
+      store.set(key, entry);
+      return "OK";
+    }
+    case "DEL":
+      return args.filter((k) => live(String(k)) && store.delete(String(k))).length;
+    case "EXISTS":
+      return args.filter((k) => live(String(k))).length;
+    case "INCRBY": {
+      const current = read<string>(key, isString);
+      const next = toInteger(current ?? 0) + toInteger(args[1]);
+      const entry = live(key);
+      store.set(key, { value: String(next), expiresAt: entry?.expiresAt });
+      return next;
+    }
+    case "EXPIRE":
+    case "PEXPIRE": {
+      const entry = live(key);
+      if (!entry || (options.includes("NX") && entry.expiresAt !== undefined)) {
+        return 0;
+      }
+      const ms = toInteger(args[1]) * (name.toUpperCase() === "EXPIRE" ? 1000 : 1);
+      entry.expiresAt = now + ms;
+      return 1;
+    }
+    case "PTTL": {
+      const entry = live(key);
+      if (!entry) {
+        return -2;
+      }
+      return entry.expiresAt === undefined ? -1 : entry.expiresAt - now;
+    }
+    case "RENAME": {
+      const entry = live(key);
+      if (!entry) {
+        fail("ERR no such key");
+      }
+      store.delete(key);
+      store.set(String(args[1]), entry);
+      return "OK";
+    }
+    case "HSET":
+    case "HSETNX": {
+      const fields = hash(true)!;
+      let added = 0;
+      for (let i = 1; i + 1 < args.length; i += 2) {
+        const field = String(args[i]);
+        if (name.toUpperCase() === "HSETNX" && fields.has(field)) {
+          continue;
+        }
+        if (!fields.has(field)) {
+          added++;
+        }
+        fields.set(field, String(args[i + 1]));
+      }
+      return added;
+    }
+    case "HGET":
+      return hash(false)?.get(String(args[1])) ?? null;
+    case "HMGET": {
+      const fields = hash(false);
+      return args.slice(1).map((field) => fields?.get(String(field)) ?? null);
+    }
+    case "HGETALL":
+      return [...(hash(false)?.entries() ?? [])].flat();
+    case "HLEN":
+      return hash(false)?.size ?? 0;
+    case "HDEL": {
+      const fields = hash(false);
+      const removed = args.slice(1).filter((field) => fields?.delete(String(field))).length;
+      dropIfEmpty(fields);
+      return removed;
+    }
+    case "HINCRBY": {
+      const fields = hash(true)!;
+      const next = toInteger(fields.get(String(args[1])) ?? 0) + toInteger(args[2]);
+      fields.set(String(args[1]), String(next));
+      return next;
+    }
+    case "ZADD": {
+      const nx = options[0] === "NX";
+      const members = zset(true)!;
+      let added = 0;
+      for (let i = nx ? 2 : 1; i + 1 < args.length; i += 2) {
+        const member = String(args[i + 1]);
+        if (nx && members.has(member)) {
+          continue;
+        }
+        if (!members.has(member)) {
+          added++;
+        }
+        members.set(member, Number(args[i]));
+      }
+      return added;
+    }
+    case "ZREM": {
+      const members = zset(false);
+      const removed = args.slice(1).filter((member) => members?.delete(String(member))).length;
+      dropIfEmpty(members);
+      return removed;
+    }
+    case "ZCARD":
+      return zset(false)?.size ?? 0;
+    case "ZSCORE": {
+      const score = zset(false)?.get(String(args[1]));
+      return score === undefined ? null : String(score);
+    }
+    case "ZREMRANGEBYSCORE": {
+      const members = zset(false);
+      const min = parseBound(args[1]);
+      const max = parseBound(args[2]);
+      let removed = 0;
+      for (const [member, score] of members ?? []) {
+        if (aboveMin(score, min) && belowMax(score, max)) {
+          members!.delete(member);
+          removed++;
+        }
+      }
+      dropIfEmpty(members);
+      return removed;
+    }
+    case "ZREMRANGEBYRANK": {
+      const members = zset(false);
+      const doomed = sortedMembers(members ?? new Map()).slice(
+        ...rankRange(members?.size ?? 0, toInteger(args[1]), toInteger(args[2]))
+      );
+      doomed.forEach(([member]) => members!.delete(member));
+      dropIfEmpty(members);
+      return doomed.length;
+    }
+    case "ZRANGE": {
+      const rev = options.includes("REV");
+      let members = sortedMembers(zset(false) ?? new Map());
+      if (rev) {
+        members.reverse();
+      }
+      if (options.includes("BYSCORE")) {
+        const min = parseBound(rev ? args[2] : args[1]);
+        const max = parseBound(rev ? args[1] : args[2]);
+        members = members.filter(([, score]) => aboveMin(score, min) && belowMax(score, max));
+      } else {
+        members = members.slice(...rankRange(members.length, toInteger(args[1]), toInteger(args[2])));
+      }
+      const limit = options.indexOf("LIMIT");
+      if (limit >= 0) {
+        const offset = toInteger(args[limit + 2]);
+        const count = toInteger(args[limit + 3]);
+        members = members.slice(offset, count < 0 ? undefined : offset + count);
+      }
+      return options.includes("WITHSCORES")
+        ? members.flatMap(([member, score]) => [member, String(score)])
+        : members.map(([member]) => member);
+    }
+    case "SADD": {
+      const members = set(true)!;
+      return args.slice(1).filter((member) => !members.has(String(member)) && members.add(String(member))).length;
+    }
+    case "SREM": {
+      const members = set(false);
+      const removed = args.slice(1).filter((member) => members?.delete(String(member))).length;
+      dropIfEmpty(members);
+      return removed;
+    }
+    case "SMEMBERS":
+      return [...(set(false) ?? [])];
+    default:
+      return fail(`ERR unknown command '${name}'`);
+  }
+}
+
+/**
+ * Create the memory store
+ *
+ * @returns DurableStore - A store over the isolate's state
+ */
+export function createMemoryDurableStore(): DurableStore {
+  if (!data) {
+    data = new Map();
+  }
+  const store = data;
+
+  return {
+    name: "memory",
+    exec: async (commands) => {
+      const results: unknown[] = [];
+      let error: unknown;
+      for (const command of commands) {
+        try {
+          results.push(run(store, command));
+        } catch (err) {
+          error = error ?? err;
+          results.push(null);
+        }
+      }
+      if (error) {
+        throw error;
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import { environment } from "@zuplo/runtime";
+import { createMemoryDurableStore } from "./durable-store-memory";
+
+/**
+ * Durable Store
+ *
+ * State that must survive isolate restarts and be shared by every zone
+ * (billing outbox, usage counters, rate limit windows, job records, webhook
+ * registrations) lives in a Redis-compatible store reached over its REST API
+ * (e.g. Upstash Redis). ZoneCache is per zone and may evict entries at any
+ * time, so it is only used for caches that can be rebuilt.
+ *
+ * Updates use single atomic commands (INCRBY, HSET, ZADD, SET NX) or
+ * MULTI/EXEC transactions, never read-modify-write of a shared value, so
+ * concurrent requests in any zone cannot overwrite each other's changes.
+ *
+ * Backends:
+ * - Redis REST API: DURABLE_STORE_URL and DURABLE_STORE_TOKEN
+ * - memory: DURABLE_STORE_URL=memory, for local development and tests
+ *   (see durable-store-memory.ts)
+ *
+ * Requirements:
+ * - Environment variables: DURABLE_STORE_URL, DURABLE_STORE_TOKEN (see env.example)
+ * - Every deployment (production, preview and local) must set both, or
+ *   DURABLE_STORE_URL=memory where losing state on restart is acceptable:
+ *   runtimeInit (zuplo.runtime.ts) calls getDurableStore, so the gateway
+ *   fails at startup without them rather than on the first request
+ */
+
+/**
+ * A store command: the command name followed by its arguments
+ * (e.g. ["HSET", "outbox:batch:b1", "state", "{...}"])
+ */
+export type StoreCommand = [string, ...(string | number)[]];
+
+/**
+ * A durable store backend
+ */
+export interface DurableStore {
+  name: string;
+  /**
+   * Run commands in order, as one MULTI/EXEC transaction when atomic is set
+   *
+   * @returns Promise<unknown[]> - One result per command
+   * @throws DurableStoreError - If the store cannot be reached or a command fails
+   */
+  exec: (commands: StoreCommand[], atomic: boolean) => Promise<unknown[]>;
+}
+
+/**
+ * Thrown when the store is not configured, cannot be reached or rejects a command
+ */
+export class DurableStoreError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "DurableStoreError";
+  }
+}
+
+interface RestResult {
+  result?: unknown;
+  error?: string;
+}
+
+function createRestDurableStore(url: string, token: string): DurableStore {
+  return {
+    name: "redis-rest",
+    exec: async (commands, atomic) => {
+      const response = await fetch(`${url}/${atomic ? "multi-exec" : "pipeline"}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(commands),
+      });
+
+      if (!response.ok) {
+        throw new DurableStoreError(
+          `Durable store request failed: status=${response.status}, error=${await response.text()}`,
+          response.status
+        );
+      }
+
+      const results = (await response.json()) as RestResult[];
+      const failed = results.find((entry) => entry.error !== undefined);
+      if (failed) {
+        throw new DurableStoreError(`Durable store command failed: ${failed.error}`);
+      }
+      return results.map((entry) => entry.result ?? null);
+    },
+  };
+}
+
+let store: DurableStore | undefined;
+
+/**
+ * Get the configured durable store
+ *
+ * @returns DurableStore - The store backend
+ * @throws DurableStoreError - If DURABLE_STORE_URL / DURABLE_STORE_TOKEN are not set
+ */
+export function getDurableStore(): DurableStore {
+  if (!store) {
+    const url = environment.DURABLE_STORE_URL;
+    if (url === "memory") {
+      store = createMemoryDurableStore();
+    } else if (url && environment.DURABLE_STORE_TOKEN) {
+      store = createRestDurableStore(url.replace(/\/+$/, ""), environment.DURABLE_STORE_TOKEN);
+    } else {
+      throw new DurableStoreError("Durable store not configured (DURABLE_STORE_URL, DURABLE_STORE_TOKEN)");
+    }
+  }
+  return store;
+}
+
+/**
+ * Use a store other than the configured one
+ *
+ * Tests run without the gateway's environment variables, so they install the
+ * memory store (see durable-store-memory.ts) with this before using modules
+ * that keep state in the store.
+ *
+ * @param override - The store to use from now on
+ */
+export function setDurableStore(override: DurableStore): void {
+  store = override;
+}
+
+/**
+ * Run a single command
+ *
+ * @param command - The command to run
+ * @returns Promise<T> - The command's result
+ * @throws DurableStoreError - If the store cannot be reached or the command fails
+ */
+export async function storeCommand<T = unknown>(command: StoreCommand): Promise<T> {
+  const [result] = await getDurableStore().exec([command], false);
+  return result as T;
+}
+
+/**
+ * Run commands as one atomic transaction (MULTI/EXEC)
+ *
+ * No other client's commands run between them.
+ *
+ * @param commands - The commands to run
+ * @returns Promise<unknown[]> - One result per command
+ * @throws DurableStoreError - If the store cannot be reached or a command fails
+ */
+export async function storeTransaction(commands: StoreCommand[]): Promise<unknown[]> {
+  return getDurableStore().exec(commands, true);
+}
+
+/**
+ * Run commands in one round trip, without atomicity
+ *
+ * @param commands - The commands to run
+ * @returns Promise<unknown[]> - One result per command
+ * @throws DurableStoreError - If the store cannot be reached or a command fails
+ */
+export async function storePipeline(commands: StoreCommand[]): Promise<unknown[]> {
+  if (commands.length === 0) {
+    return [];
+  }
+  return getDurableStore().exec(commands, false);
+}
+
+/**
+ * Convert an HGETALL reply (field, value, field, value, ...) to a record
+ *
+ * @param reply - The HGETALL result
+ * @returns Record<string, string> - Field values by field name
+ */
+export function toHash(reply: unknown): Record<string, string> {
+  const hash: Record<string, string> = {};
+  if (Array.isArray(reply)) {
+    for (let i = 0; i + 1 < reply.length; i += 2) {
+      hash[String(reply[i])] = String(reply[i + 1]);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Parse a JSON value read from the store
+ *
+ * @param value - The stored string (null when the key or field is missing)
+ * @returns T | undefined - The parsed value, or undefined when missing
+ */
+export function parseStored<T>(value: unknown): T | undefined {
+  return typeof value === "string" ? (JSON.parse(value) as T) : undefined;
+}
@@ -0,0 +1,327 @@
+/**
+ * Gateway Request Signatures
+ *
+ * Every request the gateway forwards to a crawl backend is signed with
+ * HMAC-SHA256, so the backend can reject traffic that did not come through the
+ * gateway (and therefore skipped its quotas and billing). A captured request
+ * cannot be replayed: the signature covers a timestamp and a single-use nonce.
+ *
+ * Request bodies are streamed to the backend, so their hash is not known when
+ * the headers are sent. A streamed body is signed as UNSIGNED-PAYLOAD in place
+ * of its hash (as AWS Signature V4 does): the signature still binds the
+ * method, path, identity, timestamp and nonce, and the body itself is
+ * protected in transit by TLS. Buffered bodies (and requests without one)
+ * are signed with their SHA-256.
+ *
+ * This module has no gateway dependencies (Web Crypto only) so the backend team
+ * can copy it as-is; the canonical string below is all another language needs.
+ *
+ * Headers added by the gateway:
+ * - X-Gateway-Key-Id: Which signing key was used
+ * - X-Gateway-Timestamp: Unix time (seconds) the request was signed
+ * - X-Gateway-Nonce: Random, unique per request
+ * - X-Gateway-Content-SHA256: Hex SHA-256 of the request body (of "" for no
+ *   body), or UNSIGNED-PAYLOAD for a streamed body
+ * - X-Gateway-Consumer: Authenticated consumer (request.user.sub)
+ * - X-Gateway-Tier: Consumer's plan tier
+ * - X-Gateway-Signature: "v1=" + hex HMAC-SHA256 of the canonical string
+ *
+ * Canonical string (lines joined with "\n"):
+ *   GATEWAY-HMAC-SHA256-v1
+ *   <METHOD>
+ *   <path>?<query> (exactly as sent, without scheme and host)
+ *   <timestamp>
+ *   <nonce>
+ *   <content sha256> (as sent in X-Gateway-Content-SHA256)
+ *   <consumer>
+ *   <tier>
+ *
+ * Key rotation: the backend holds a key ring (key id -> secret, optional
+ * notAfter). To rotate, add the new key to the ring, switch the gateway's
+ * GATEWAY_SIGNING_KEY_ID / GATEWAY_SIGNING_KEY to it, and give the old key a
+ * notAfter a few minutes out. Both keys verify during that overlap window; the
+ * old one is rejected after it and can then be removed.
+ */
+
+const SCHEME = "GATEWAY-HMAC-SHA256-v1";
+const SIGNATURE_VERSION = "v1";
+
+// Sent in place of the body hash when the body is streamed
+export const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+// Signed requests older (or newer) than this are rejected
+export const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 300;
+
+export const SIGNATURE_HEADERS = {
+  keyId: "X-Gateway-Key-Id",
+  timestamp: "X-Gateway-Timestamp",
+  nonce: "X-Gateway-Nonce",
+  contentSha256: "X-Gateway-Content-SHA256",
+  consumer: "X-Gateway-Consumer",
+  tier: "X-Gateway-Tier",
+  signature: "X-Gateway-Signature",
+} as const;
+
+/**
+ * Gateway identity asserted to the backend
+ */
+export interface SignedIdentity {
+  consumer: string;
+  tier: string;
+}
+
+/**
+ * Key the gateway signs with
+ */
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Key the backend accepts
+ * - notAfter: Unix time (seconds) after which the key is rejected (end of the
+ *   rotation overlap window); omit for the current key
+ */
+export interface VerificationKey {
+  secret: string;
+  notAfter?: number;
+}
+
+/**
+ * Remembers nonces for replay protection
+ *
+ * @returns true if the nonce was new (and is now remembered), false if seen before
+ */
+export interface NonceStore {
+  checkAndRemember(nonce: string, ttlSeconds: number): Promise<boolean>;
+}
+
+/**
+ * Request as seen by the verifier
+ */
+export interface SignedRequest {
+  method: string;
+  pathAndQuery: string;
+  headers: Headers;
+  body: ArrayBuffer | Uint8Array | string | null | undefined;
+}
+
+/**
+ * Outcome of verification
+ * - identity: The signed consumer and tier, only set when valid
+ */
+export interface VerificationResult {
+  valid: boolean;
+  reason?: string;
+  identity?: SignedIdentity;
+}
+
+const encoder = new TextEncoder();
+
+function toBytes(body: ArrayBuffer | Uint8Array | string | null | undefined) {
+  if (body === null || body === undefined) {
+    return new Uint8Array();
+  }
+  if (typeof body === "string") {
+    return encoder.encode(body);
+  }
+  return new Uint8Array(body);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string) {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function sha256Hex(body: ArrayBuffer | Uint8Array | string | null | undefined): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", toBytes(body)));
+}
+
+function importKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+function canonicalString(fields: {
+  method: string;
+  pathAndQuery: string;
+  timestamp: string;
+  nonce: string;
+  contentSha256: string;
+  consumer: string;
+  tier: string;
+}): string {
+  return [
+    SCHEME,
+    fields.method.toUpperCase(),
+    fields.pathAndQuery,
+    fields.timestamp,
+    fields.nonce,
+    fields.contentSha256,
+    fields.consumer,
+    fields.tier,
+  ].join("\n");
+}
+
+/**
+ * Sign a request for the backend
+ *
+ * @param method - HTTP method
+ * @param pathAndQuery - Path and query string as sent to the backend
+ * @param body - Request body (undefined for none); a stream is signed as UNSIGNED-PAYLOAD
+ * @param identity - Authenticated consumer and tier
+ * @param key - Current signing key
+ * @returns Promise<Record<string, string>> - Headers to add to the forwarded request
+ */
+export async function signGatewayRequest(
+  method: string,
+  pathAndQuery: string,
+  body: ArrayBuffer | Uint8Array | string | ReadableStream | null | undefined,
+  identity: SignedIdentity,
+  key: SigningKey
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = crypto.randomUUID();
+  const contentSha256 = body instanceof ReadableStream ? UNSIGNED_PAYLOAD : await sha256Hex(body);
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(key.secret, "sign"),
+    encoder.encode(
+      canonicalString({ method, pathAndQuery, timestamp, nonce, contentSha256, ...identity })
+    )
+  );
+
+  return {
+    [SIGNATURE_HEADERS.keyId]: key.id,
+    [SIGNATURE_HEADERS.timestamp]: timestamp,
+    [SIGNATURE_HEADERS.nonce]: nonce,
+    [SIGNATURE_HEADERS.contentSha256]: contentSha256,
+    [SIGNATURE_HEADERS.consumer]: identity.consumer,
+    [SIGNATURE_HEADERS.tier]: identity.tier,
+    [SIGNATURE_HEADERS.signature]: `${SIGNATURE_VERSION}=${toHex(signature)}`,
+  };
+}
+
+/**
+ * Verify a request signed by the gateway (for use in the backend)
+ *
+ * Checks, in order: all headers present, known and unexpired key, timestamp
+ * within the allowed skew, body hash, signature, and finally that the nonce
+ * has not been seen before (so invalid requests cannot burn nonces). The body
+ * hash is not checked for an UNSIGNED-PAYLOAD (streamed) body, so the backend
+ * can verify such a request before reading its body.
+ *
+ * @param request - Method, path, headers and raw body as received (the body
+ *   is only read for a signed hash)
+ * @param keys - Key ring: key id -> key
+ * @param nonces - Nonce store shared by all backend workers
+ * @param maxClockSkewSeconds - Allowed difference between gateway and backend clocks
+ * @returns Promise<VerificationResult> - Whether the request is authentic, and its identity
+ */
+export async function verifyGatewayRequest(
+  request: SignedRequest,
+  keys: Record<string, VerificationKey>,
+  nonces: NonceStore,
+  maxClockSkewSeconds: number = DEFAULT_MAX_CLOCK_SKEW_SECONDS
+): Promise<VerificationResult> {
+  const header = (name: string) => request.headers.get(name);
+  const keyId = header(SIGNATURE_HEADERS.keyId);
+  const timestamp = header(SIGNATURE_HEADERS.timestamp);
+  const nonce = header(SIGNATURE_HEADERS.nonce);
+  const contentSha256 = header(SIGNATURE_HEADERS.contentSha256);
+  const consumer = header(SIGNATURE_HEADERS.consumer);
+  const tier = header(SIGNATURE_HEADERS.tier);
+  const signature = header(SIGNATURE_HEADERS.signature);
+
+  if (!keyId || !timestamp || !nonce || contentSha256 === null || consumer === null || tier === null || !signature) {
+    return { valid: false, reason: "missing signature headers" };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const key = keys[keyId];
+  if (!key) {
+    return { valid: false, reason: `unknown key id ${keyId}` };
+  }
+  if (key.notAfter !== undefined && now > key.notAfter) {
+    return { valid: false, reason: `key ${keyId} has expired` };
+  }
+
+  const signedAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now - signedAt) > maxClockSkewSeconds) {
+    return { valid: false, reason: "timestamp outside the allowed window" };
+  }
+
+  const contentHash = contentSha256 === UNSIGNED_PAYLOAD ? contentSha256 : contentSha256.toLowerCase();
+  if (contentHash !== UNSIGNED_PAYLOAD && (await sha256Hex(request.body)) !== contentHash) {
+    return { valid: false, reason: "body does not match its signed hash" };
+  }
+
+  const [version, hex] = signature.split("=", 2);
+  const signatureBytes = version === SIGNATURE_VERSION && hex ? fromHex(hex) : undefined;
+  if (!signatureBytes) {
+    return { valid: false, reason: "malformed signature" };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const authentic = await crypto.subtle.verify(
+    "HMAC",
+    await importKey(key.secret, "verify"),
+    signatureBytes,
+    encoder.encode(
+      canonicalString({
+        method: request.method,
+        pathAndQuery: request.pathAndQuery,
+        timestamp,
+        nonce,
+        contentSha256: contentHash,
+        consumer,
+        tier,
+      })
+    )
+  );
+  if (!authentic) {
+    return { valid: false, reason: "signature mismatch" };
+  }
+
+  // Remember nonces for the whole window in which their timestamp is accepted
+  if (!(await nonces.checkAndRemember(nonce, maxClockSkewSeconds * 2))) {
+    return { valid: false, reason: "nonce already used (replay)" };
+  }
+
+  return { valid: true, identity: { consumer, tier } };
+}
+
+/**
+ * In-memory nonce store for a single backend process
+ *
+ * Backends running more than one worker need a shared store (e.g. Redis
+ * SET NX EX) implementing NonceStore instead.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly seen = new Map<string, number>();
+
+  async checkAndRemember(nonce: string, ttlSeconds: number): Promise<boolean> {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt <= now) {
+        this.seen.delete(key);
+      }
+    }
+    if (this.seen.has(nonce)) {
+      return false;
+    }
+    this.seen.set(nonce, now + ttlSeconds * 1000);
+    return true;
+  }
+}
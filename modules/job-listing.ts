@@ -0,0 +1,47 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { listJobs } from "./jobs";
+
+/**
+ * Job Listing - Request Handler
+ *
+ * GET /crawl/jobs: The caller's own crawl jobs, newest first, from the job
+ * registry (see jobs.ts). Statuses are the last ones the gateway saw; fetch
+ * GET /crawl/job/{jobId} for a job's current status and results.
+ *
+ * Query parameters (validated by parameter-validation):
+ * - status: Only jobs with this status
+ * - limit: Page size (default 20, at most 100)
+ * - cursor: nextCursor from the previous page
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * List the caller's crawl jobs
+ */
+export async function listCrawlJobs(request: ZuploRequest, context: ZuploContext) {
+  const limit = Number(request.query.limit ?? DEFAULT_PAGE_SIZE);
+  const { jobs, hasMore } = await listJobs(
+    request.user!.sub,
+    { status: request.query.status || undefined, after: request.query.cursor || undefined, limit },
+    context
+  );
+
+  return jsonResponse({
+    jobs: jobs.map((job) => ({
+      jobId: job.jobId,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+    })),
+    hasMore,
+    nextCursor: hasMore ? jobs[jobs.length - 1].jobId : null,
+  });
+}
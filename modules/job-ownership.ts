@@ -0,0 +1,41 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { getJob } from "./jobs";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Job Ownership - Inbound Policy
+ *
+ * Restricts /crawl/job/{jobId} routes to the consumer that submitted the
+ * job, using the job registry (see jobs.ts). Must run after api-key-auth.
+ *
+ * Jobs that belong to someone else and jobs the gateway has no record of both
+ * get the same 404, so job IDs cannot be probed for.
+ */
+
+/**
+ * Inbound policy to check that the caller owns the job in the path
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context with logging
+ * @param options - Policy options (unused)
+ * @param policyName - The name of the policy being applied
+ * @returns The request if the caller owns the job, or a 404 response
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: unknown,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  const jobId = request.params.jobId;
+  const job = jobId ? await getJob(jobId, context) : undefined;
+
+  if (!job || job.consumer !== request.user?.sub) {
+    context.log.warn(
+      `Job access denied by ${policyName}: user=${request.user?.sub}, jobId=${jobId}, known=${!!job}`
+    );
+    return gatewayProblem(request, context, "not-found", `Job ${jobId} was not found.`);
+  }
+
+  return request;
+}
@@ -0,0 +1,293 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { getRouteId } from "./plans";
+import {
+  confirmJobStarted,
+  isTerminalJobStatus,
+  markJobFinished,
+  recordJob,
+  releaseJobSlot,
+  updateJobStatus,
+} from "./jobs";
+import { QuotaInfo } from "./quota-enforcement";
+import { resolveBilledUnits } from "./metering";
+import { getBillingCycleAnchor, getBillingPeriod } from "./billing-period";
+import { drainWebhooks, notifyJobFinished, registerWebhook } from "./webhooks";
+
+/**
+ * Job Tracking - Outbound Policy
+ *
+ * Keeps the in-flight job registry (see jobs.ts) in step with the backend:
+ * - submitCrawlJob (POST /crawl/job): records the returned job_id with its owner
+ *   and the backend that accepted it (context.custom.backendId, set by
+ *   backend-proxy), and what the submission was billed (the units, the
+ *   billing period and the units past the quota, which cancellation-credit
+ *   credits back), in place of the slot concurrency-limit reserved, or releases
+ *   the slot if no job was created. A webhook_url accepted by target-url-check
+ *   (context.custom.webhookUrl) is registered for the job (see webhooks.ts)
+ * - getCrawlJob (GET /crawl/job/{jobId}) and cancelCrawlJob (DELETE
+ *   /crawl/job/{jobId}): records the job's status, stops
+ *   counting the job once the backend reports a terminal status, or no longer
+ *   knows the job (404), and hands the finished job to its webhook
+ * - streamCrawlJobEvents (GET /crawl/job/{jobId}/events): frees the stream's
+ *   slot when the stream ends (or the client disconnects), records status
+ *   events, and stops counting the job once one reports a terminal status
+ *
+ * Every call also gives pending webhooks a chance to be checked and retried
+ * (drainWebhooks).
+ *
+ * Submissions are recorded before the response is returned, so the owner can
+ * use the job ID straight away; other registry updates run in the background.
+ * Responses are passed through unchanged; event streams are re-wrapped so
+ * chunks can be observed as they pass, without being buffered.
+ */
+
+/**
+ * Read a copy of a JSON object response body
+ */
+async function readResponseBody(response: Response): Promise<Record<string, unknown> | undefined> {
+  try {
+    const body = await response.clone().json();
+    return body && typeof body === "object" ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function trackSubmission(
+  response: Response,
+  request: ZuploRequest,
+  consumer: string,
+  context: ZuploContext
+): Promise<void> {
+  const body = response.ok ? await readResponseBody(response) : undefined;
+  const jobId = typeof body?.job_id === "string" && body.job_id ? body.job_id : undefined;
+
+  if (jobId) {
+    const backendId = context.custom.backendId as string | undefined;
+    const status = typeof body?.status === "string" ? body.status : "pending";
+    const quotaInfo = request.user?.data?.quotaInfo as QuotaInfo | undefined;
+    if (backendId) {
+      const createdAt = Date.now();
+      const unitsCharged = resolveBilledUnits(response, context, quotaInfo?.requestUnits);
+      // quotaInfo.used is the usage before this submission: only the units past the quota are overage
+      const overageUnits = quotaInfo
+        ? Math.min(unitsCharged, Math.max(0, quotaInfo.used + unitsCharged - quotaInfo.limit))
+        : 0;
+      await recordJob(
+        {
+          jobId,
+          consumer,
+          backendId,
+          createdAt,
+          urlCount: context.custom.urlCount as number | undefined,
+          unitsCharged,
+          billingPeriodStart: getBillingPeriod(createdAt, getBillingCycleAnchor(request.user?.data)).start.getTime(),
+          overageUnits,
+          overageRate: quotaInfo?.overageRate,
+        },
+        status,
+        context
+      );
+    }
+    await confirmJobStarted(consumer, context.requestId, jobId, context);
+    context.log.debug(`Job in flight: user=${consumer}, jobId=${jobId}`);
+
+    const webhookUrl = context.custom.webhookUrl as string | undefined;
+    if (webhookUrl) {
+      const tier = (request.user?.data?.tier as string) || "free";
+      await registerWebhook({ jobId, consumer, tier, url: webhookUrl }, context);
+    }
+  } else {
+    await releaseJobSlot(consumer, context.requestId, context);
+    context.log.debug(`Job slot released: user=${consumer}, status=${response.status}`);
+  }
+}
+
+async function trackStatusPoll(
+  response: Response,
+  request: ZuploRequest,
+  consumer: string,
+  context: ZuploContext
+): Promise<void> {
+  const jobId = request.params.jobId;
+  if (!jobId) {
+    return;
+  }
+
+  const job = response.ok ? await readResponseBody(response) : undefined;
+  const finished = response.status === 404 || isTerminalJobStatus(job?.status);
+
+  if (typeof job?.status === "string") {
+    await updateJobStatus(consumer, jobId, job.status, context);
+  }
+
+  if (finished && (await markJobFinished(consumer, jobId, context))) {
+    context.log.debug(`Job finished: user=${consumer}, jobId=${jobId}, status=${response.status}`);
+  }
+  if (job && isTerminalJobStatus(job.status)) {
+    await notifyJobFinished(jobId, job, context);
+  }
+}
+
+/**
+ * Log (rather than throw) a failed registry update
+ */
+function logTrackingFailure(tracking: Promise<unknown>, context: ZuploContext): Promise<unknown> {
+  return tracking.catch((error) => {
+    context.log.warn(`Job tracking failed: ${error}`);
+  });
+}
+
+/**
+ * Scan Server-Sent Events for job status changes
+ *
+ * Fed the stream chunk by chunk; only complete events (terminated by a blank
+ * line) are inspected. Returns the status of the last event in the chunk
+ * whose data is JSON with a string status field, if any.
+ */
+function createStatusScanner(): (chunk: Uint8Array) => string | undefined {
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  return (chunk) => {
+    pending = (pending + decoder.decode(chunk, { stream: true })).replace(/\r\n?/g, "\n");
+    const events = pending.split("\n\n");
+    pending = events.pop() ?? "";
+
+    let status: string | undefined;
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+      try {
+        const parsed = data ? JSON.parse(data) : undefined;
+        if (typeof parsed?.status === "string") {
+          status = parsed.status;
+        }
+      } catch {
+        // Not JSON: not a status event
+      }
+    }
+    return status;
+  };
+}
+
+/**
+ * Wrap an event stream so the registry follows it
+ *
+ * Chunks are forwarded as soon as they arrive. The stream's slot is released
+ * exactly once, whether the backend ends the stream, it errors, or the client
+ * goes away.
+ */
+function trackEventStream(
+  response: Response,
+  request: ZuploRequest,
+  consumer: string,
+  context: ZuploContext
+): Response {
+  const jobId = request.params.jobId;
+  const release = () =>
+    releaseJobSlot(consumer, context.requestId, context).then(() => {
+      context.log.debug(`Stream slot released: user=${consumer}, jobId=${jobId}`);
+    });
+
+  if (!response.ok || !response.body) {
+    context.waitUntil(logTrackingFailure(release(), context));
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const scan = createStatusScanner();
+  let finished = false;
+  let closed = false;
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      context.waitUntil(logTrackingFailure(release(), context));
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          close();
+          return;
+        }
+        controller.enqueue(value);
+
+        const status = jobId ? scan(value) : undefined;
+        if (status && !finished) {
+          context.waitUntil(logTrackingFailure(updateJobStatus(consumer, jobId, status, context), context));
+          if (isTerminalJobStatus(status)) {
+            finished = true;
+            context.log.debug(`Job finished: user=${consumer}, jobId=${jobId}, via event stream`);
+            context.waitUntil(logTrackingFailure(markJobFinished(consumer, jobId, context), context));
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+        close();
+      }
+    },
+    cancel(reason) {
+      close();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Outbound policy to track in-flight crawl jobs
+ *
+ * @param response - The backend response
+ * @param request - The original Zuplo request with user data
+ * @param context - The Zuplo context
+ * @returns The original response, or for event streams an unbuffered copy
+ *   that is tracked as it is read
+ */
+export default async function (
+  response: Response,
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<Response> {
+  const consumer = request.user?.sub;
+  if (!consumer) {
+    return response;
+  }
+
+  let tracking: Promise<void> | undefined;
+  switch (getRouteId(context)) {
+    case "submitCrawlJob":
+      // Awaited: the job must be owned before its ID reaches the client
+      await logTrackingFailure(trackSubmission(response, request, consumer, context), context);
+      break;
+    case "getCrawlJob":
+    case "cancelCrawlJob":
+      tracking = trackStatusPoll(response, request, consumer, context);
+      break;
+    case "streamCrawlJobEvents":
+      response = trackEventStream(response, request, consumer, context);
+      break;
+  }
+
+  // Drain only after tracking, so a job this request saw finish is not
+  // picked up by the drain as well
+  context.waitUntil(
+    logTrackingFailure(tracking ?? Promise.resolve(), context).then(() =>
+      logTrackingFailure(drainWebhooks(context), context)
+    )
+  );
+
+  return response;
+}
@@ -0,0 +1,418 @@
+import { ZuploContext } from "@zuplo/runtime";
+import { parseStored, storeCommand, storePipeline, storeTransaction } from "./durable-store";
+
+/**
+ * Crawl Job Registry
+ *
+ * Gateway-side record of each consumer's crawl jobs, kept in the durable
+ * store (see durable-store.ts) so ownership survives isolate restarts and is
+ * the same in every zone.
+ *
+ * Every job the gateway submits is recorded with the consumer that submitted
+ * it and the backend that runs it, so that:
+ * - only the owner can reach the job's routes (see job-ownership.ts)
+ * - status lookups are routed back to the job's backend (see backend-proxy.ts)
+ * - consumers can list their own jobs (GET /crawl/jobs, see job-listing.ts).
+ *   Each consumer has an index of their newest jobs with the last status the
+ *   gateway saw for each (from the submission, status polls, event streams
+ *   and webhook status checks)
+ *
+ * Each job is one hash (job:<jobId>) holding its record, last seen status and
+ * credited units, and each consumer's index is a sorted set of job IDs scored
+ * by submission time (jobs:<consumer>). Submissions, status updates and
+ * credits each touch only their own fields, so concurrent requests never drop
+ * each other's jobs.
+ *
+ * In-flight jobs count against the tier's maxConcurrentJobs (see
+ * concurrency-limit.ts). A job is in flight from POST /crawl/job until
+ * GET /crawl/job/{jobId} or its event stream reports a terminal status (see
+ * job-tracking.ts):
+ * - concurrency-limit reserves a slot for the submission before it reaches the backend
+ * - job-tracking swaps the reservation for the returned job_id, or releases it
+ *   if the submission failed
+ * - job-tracking removes the job once a status poll reports it finished
+ *
+ * Open event streams (GET /crawl/job/{jobId}/events) hold a slot of their own
+ * for as long as the stream stays open, counted against the same limit.
+ *
+ * Reservations, jobs and streams that are never released (client stops polling,
+ * outbound policy never ran) expire on their own so they cannot block a
+ * consumer forever.
+ *
+ * Each consumer's slots are one sorted set in the durable store (see
+ * durable-store.ts), inflight:<consumer>, with a member per job, reservation
+ * or stream scored by when it expires. A slot is taken by adding it and
+ * counting the set in one transaction, and given back if that count is over
+ * the limit, so racing requests can never take more slots than the limit.
+ */
+
+// A job nobody polls to completion stops counting after 6 hours
+const IN_FLIGHT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+// A reservation whose submission never completed is dropped after 5 minutes
+const RESERVATION_MAX_AGE_MS = 5 * 60 * 1000;
+
+// A stream whose close was never seen stops counting after 1 hour
+const STREAM_MAX_AGE_MS = 60 * 60 * 1000;
+
+const IN_FLIGHT_TTL_SECONDS = IN_FLIGHT_MAX_AGE_MS / 1000;
+
+// Slot lifetime by what the slot is held for
+const SLOT_MAX_AGE_MS = {
+  job: IN_FLIGHT_MAX_AGE_MS,
+  reservation: RESERVATION_MAX_AGE_MS,
+  stream: STREAM_MAX_AGE_MS,
+};
+
+// Job records outlive the backend's own job retention
+const JOB_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Jobs kept in each consumer's index (newest first)
+const MAX_INDEXED_JOBS = 1000;
+
+/**
+ * Job statuses after which a job no longer counts as in flight
+ */
+export const TERMINAL_JOB_STATUSES = ["completed", "failed", "cancelled"];
+
+/**
+ * What an in-flight slot is held for
+ * - job: a job submission (becomes the job once the backend accepts it)
+ * - stream: an open job event stream
+ */
+export type SlotKind = "job" | "stream";
+
+/**
+ * Stored record of a submitted job
+ * - backendId: Backend that accepted the job (see config/backends.json)
+ * - createdAt: Epoch ms
+ * - urlCount, unitsCharged: Size and billed units of the submission, used to
+ *   credit unprocessed URLs when the job is cancelled
+ * - billingPeriodStart: Start of the billing period the units were billed in (epoch ms)
+ * - overageUnits, overageRate: How many of the units were billed as overage,
+ *   and at what rate (per 1k units)
+ * - unitsCredited: Units credited back when the job was cancelled (see claimJobCredit)
+ */
+export interface JobRecord {
+  jobId: string;
+  consumer: string;
+  backendId: string;
+  createdAt: number;
+  urlCount?: number;
+  unitsCharged?: number;
+  billingPeriodStart?: number;
+  overageUnits?: number;
+  overageRate?: number;
+  unitsCredited?: number;
+}
+
+/**
+ * Entry in a consumer's job index
+ * - status: Last status the gateway saw, lowercased
+ * - createdAt, updatedAt: Epoch ms
+ */
+export interface JobSummary {
+  jobId: string;
+  status: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function inFlightKey(consumer: string): string {
+  return `inflight:${consumer}`;
+}
+
+function slotMember(kind: keyof typeof SLOT_MAX_AGE_MS, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function slotExpiry(kind: keyof typeof SLOT_MAX_AGE_MS): number {
+  return Date.now() + SLOT_MAX_AGE_MS[kind];
+}
+
+function jobKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+function indexKey(consumer: string): string {
+  return `jobs:${consumer}`;
+}
+
+/**
+ * Job IDs in a consumer's index, newest first
+ */
+async function readIndex(consumer: string): Promise<string[]> {
+  const [, jobIds] = await storeTransaction([
+    ["ZREMRANGEBYSCORE", indexKey(consumer), "-inf", `(${Date.now() - JOB_TTL_SECONDS * 1000}`],
+    ["ZRANGE", indexKey(consumer), 0, -1, "REV"],
+  ]);
+  return (jobIds as string[] | null) ?? [];
+}
+
+/**
+ * Summaries of the given jobs, in the same order (jobs whose record expired are left out)
+ */
+async function readSummaries(jobIds: string[]): Promise<JobSummary[]> {
+  const replies = await storePipeline(
+    jobIds.map((jobId) => ["HMGET", jobKey(jobId), "record", "status", "updatedAt"])
+  );
+  return replies.flatMap((reply, i) => {
+    const [record, status, updatedAt] = reply as (string | null)[];
+    const job = parseStored<JobRecord>(record);
+    return job
+      ? [{ jobId: jobIds[i], status: status ?? "", createdAt: job.createdAt, updatedAt: Number(updatedAt) }]
+      : [];
+  });
+}
+
+/**
+ * Record a newly submitted job and add it to its consumer's index
+ *
+ * @param record - The job, its owner and the backend that accepted it
+ * @param status - Status reported by the submission response
+ * @param context - Zuplo context
+ */
+export async function recordJob(record: JobRecord, status: string, context: ZuploContext): Promise<void> {
+  const key = jobKey(record.jobId);
+  const index = indexKey(record.consumer);
+
+  await storeTransaction([
+    ["HSET", key, "record", JSON.stringify(record), "status", status.toLowerCase(), "updatedAt", record.createdAt],
+    ["EXPIRE", key, JOB_TTL_SECONDS],
+    ["ZADD", index, record.createdAt, record.jobId],
+    ["ZREMRANGEBYRANK", index, 0, -(MAX_INDEXED_JOBS + 1)],
+    ["EXPIRE", index, JOB_TTL_SECONDS],
+  ]);
+}
+
+/**
+ * Claim a job's cancellation credit
+ *
+ * A job is credited at most once: only the first claim succeeds, however
+ * many cancellations race for it. The claimant applies the credit, and
+ * releases the claim if it cannot (releaseJobCredit).
+ *
+ * @param jobId - The cancelled job
+ * @param units - Units to credit
+ * @param context - Zuplo context
+ * @returns Promise<boolean> - True if this call claimed the credit
+ */
+export async function claimJobCredit(jobId: string, units: number, context: ZuploContext): Promise<boolean> {
+  const claimed = await storeCommand<number>(["HSETNX", jobKey(jobId), "unitsCredited", units]);
+  return claimed === 1;
+}
+
+/**
+ * Release a job's cancellation credit claim whose credit was not applied, so
+ * the next cancellation can claim it again
+ *
+ * @param jobId - The cancelled job
+ * @param context - Zuplo context
+ */
+export async function releaseJobCredit(jobId: string, context: ZuploContext): Promise<void> {
+  await storeCommand(["HDEL", jobKey(jobId), "unitsCredited"]);
+  context.log.debug(`Job credit claim released: jobId=${jobId}`);
+}
+
+/**
+ * Update the status shown for a job in its consumer's index
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param jobId - The job ID
+ * @param status - Status reported by the backend
+ * @param context - Zuplo context
+ */
+export async function updateJobStatus(
+  consumer: string,
+  jobId: string,
+  status: string,
+  context: ZuploContext
+): Promise<void> {
+  const key = jobKey(jobId);
+  const [record, current] = await storeCommand<(string | null)[]>(["HMGET", key, "record", "status"]);
+  if (parseStored<JobRecord>(record)?.consumer !== consumer || current === status.toLowerCase()) {
+    return;
+  }
+  await storeCommand(["HSET", key, "status", status.toLowerCase(), "updatedAt", Date.now()]);
+}
+
+/**
+ * List a consumer's jobs, newest first
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param options.status - Only jobs whose last seen status matches (case-insensitive)
+ * @param options.after - Continue after this job ID (cursor from the previous page)
+ * @param options.limit - Page size
+ * @param context - Zuplo context
+ * @returns Promise<{ jobs, hasMore }> - One page of jobs, and whether more follow
+ */
+export async function listJobs(
+  consumer: string,
+  options: { status?: string; after?: string; limit: number },
+  context: ZuploContext
+): Promise<{ jobs: JobSummary[]; hasMore: boolean }> {
+  let jobIds = await readIndex(consumer);
+
+  // Apply the cursor before the filter, so a job whose status changed since
+  // the previous page still marks where to continue
+  if (options.after) {
+    const position = jobIds.indexOf(options.after);
+    jobIds = position === -1 ? [] : jobIds.slice(position + 1);
+  }
+
+  // Read summaries a page at a time until one more job than the page matches
+  const status = options.status?.toLowerCase();
+  const jobs: JobSummary[] = [];
+  for (let offset = 0; offset < jobIds.length && jobs.length <= options.limit; offset += options.limit + 1) {
+    const summaries = await readSummaries(jobIds.slice(offset, offset + options.limit + 1));
+    jobs.push(...summaries.filter((job) => !status || job.status === status));
+  }
+  return { jobs: jobs.slice(0, options.limit), hasMore: jobs.length > options.limit };
+}
+
+/**
+ * Look up a job recorded by recordJob
+ *
+ * @param jobId - The job ID
+ * @param context - Zuplo context
+ * @returns Promise<JobRecord | undefined> - The record, or undefined if unknown
+ *   (or the lookup failed, which is logged)
+ */
+export async function getJob(jobId: string, context: ZuploContext): Promise<JobRecord | undefined> {
+  try {
+    const [record, unitsCredited] = await storeCommand<(string | null)[]>([
+      "HMGET", jobKey(jobId), "record", "unitsCredited",
+    ]);
+    const job = parseStored<JobRecord>(record);
+    return job && { ...job, unitsCredited: unitsCredited === null ? undefined : Number(unitsCredited) };
+  } catch (error) {
+    context.log.warn(`Job record read failed: jobId=${jobId}, error=${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a job status is terminal
+ *
+ * @param status - status field from the backend's job response
+ * @returns boolean - True if the job has finished
+ */
+export function isTerminalJobStatus(status: unknown): boolean {
+  return typeof status === "string" && TERMINAL_JOB_STATUSES.includes(status.toLowerCase());
+}
+
+/**
+ * Count a consumer's in-flight jobs (including pending reservations and open streams)
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param context - Zuplo context
+ * @returns Promise<number> - Jobs, reservations and streams currently in flight
+ */
+export async function countInFlightJobs(consumer: string, context: ZuploContext): Promise<number> {
+  const [, count] = await storeTransaction([
+    ["ZREMRANGEBYSCORE", inFlightKey(consumer), "-inf", Date.now()],
+    ["ZCARD", inFlightKey(consumer)],
+  ]);
+  return Number(count);
+}
+
+/**
+ * Reserve an in-flight slot for a job submission or event stream, if one is free
+ *
+ * The slot is added and the consumer's slots counted in one transaction; a
+ * slot that takes the count over the limit is removed again. Two requests
+ * racing for the last slot can therefore never both get it.
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param requestId - ID of the submitting or streaming request
+ * @param maxConcurrentJobs - The tier's concurrent job limit
+ * @param context - Zuplo context
+ * @param kind - What the slot is for (defaults to a job submission)
+ * @returns Promise<{ reserved, inFlight }> - Whether a slot was reserved, and the
+ *   in-flight count before this request
+ */
+export async function reserveJobSlot(
+  consumer: string,
+  requestId: string,
+  maxConcurrentJobs: number,
+  context: ZuploContext,
+  kind: SlotKind = "job"
+): Promise<{ reserved: boolean; inFlight: number }> {
+  const key = inFlightKey(consumer);
+  const slotKind = kind === "stream" ? "stream" : "reservation";
+  const member = slotMember(slotKind, requestId);
+
+  const [, , count] = await storeTransaction([
+    ["ZREMRANGEBYSCORE", key, "-inf", Date.now()],
+    ["ZADD", key, slotExpiry(slotKind), member],
+    ["ZCARD", key],
+    ["EXPIRE", key, IN_FLIGHT_TTL_SECONDS],
+  ]);
+  const inFlight = Number(count) - 1;
+
+  if (inFlight >= maxConcurrentJobs) {
+    await storeCommand(["ZREM", key, member]);
+    return { reserved: false, inFlight };
+  }
+  return { reserved: true, inFlight };
+}
+
+/**
+ * Replace a reservation with the job the backend created
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param requestId - ID of the submitting request
+ * @param jobId - job_id returned by the backend
+ * @param context - Zuplo context
+ */
+export async function confirmJobStarted(
+  consumer: string,
+  requestId: string,
+  jobId: string,
+  context: ZuploContext
+): Promise<void> {
+  const key = inFlightKey(consumer);
+  await storeTransaction([
+    ["ZREM", key, slotMember("reservation", requestId)],
+    ["ZADD", key, slotExpiry("job"), slotMember("job", jobId)],
+    ["EXPIRE", key, IN_FLIGHT_TTL_SECONDS],
+  ]);
+}
+
+/**
+ * Release a reservation whose submission did not create a job, or the slot of
+ * an event stream that has closed
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param requestId - ID of the submitting or streaming request
+ * @param context - Zuplo context
+ */
+export async function releaseJobSlot(
+  consumer: string,
+  requestId: string,
+  context: ZuploContext
+): Promise<void> {
+  await storeCommand([
+    "ZREM",
+    inFlightKey(consumer),
+    slotMember("reservation", requestId),
+    slotMember("stream", requestId),
+  ]);
+}
+
+/**
+ * Stop counting a job as in flight
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param jobId - The finished job
+ * @param context - Zuplo context
+ * @returns Promise<boolean> - True if the job was in flight
+ */
+export async function markJobFinished(
+  consumer: string,
+  jobId: string,
+  context: ZuploContext
+): Promise<boolean> {
+  const removed = await storeCommand(["ZREM", inFlightKey(consumer), slotMember("job", jobId)]);
+  return Number(removed) > 0;
+}
@@ -0,0 +1,155 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { getMeteringConfig } from "./plans";
+
+/**
+ * Metering - unit computation
+ *
+ * Turns a request into billable units so that a crawl job is charged for the
+ * work it causes rather than one unit per HTTP request.
+ *
+ * Each route declares its price in config/routes.oas.json:
+ *
+ *   "x-billing": { "billable": true, "units": 1 }
+ *
+ * - billable: false makes the route free (never billed, never counted)
+ * - units: Base cost of the route (per URL for requests with a urls array)
+ * Routes without x-billing are billable at 1 unit.
+ *
+ * Units are computed as:
+ * - Estimate (inbound): units x urls.length x extraction weight
+ *   (weights come from the plan catalog; requests without urls cost `units`)
+ * - Actual (outbound): the backend's X-Units-Consumed header, when present,
+ *   replaces the estimate on billable routes
+ *
+ * quota-enforcement stores the estimate in QuotaInfo.requestUnits; billing and
+ * quota-headers resolve the final figure with resolveBilledUnits() so all
+ * three agree on what a request cost.
+ */
+
+// Header the backend uses to report the units a request actually consumed
+export const UNITS_CONSUMED_HEADER = "X-Units-Consumed";
+
+/**
+ * Route-level billing declaration (x-billing in routes.oas.json)
+ */
+export interface RouteBilling {
+  billable: boolean;
+  units: number;
+}
+
+const DEFAULT_ROUTE_BILLING: RouteBilling = { billable: true, units: 1 };
+
+/**
+ * Crawl submission fields relevant to metering
+ */
+interface CrawlRequestBody {
+  urls?: unknown;
+  extraction_config?: {
+    type?: unknown;
+  };
+}
+
+/**
+ * Read the x-billing declaration of the current route
+ *
+ * Invalid declarations are logged and treated as the default (billable, 1 unit)
+ * so a config mistake never makes a route free by accident.
+ *
+ * @param context - Zuplo context
+ * @returns RouteBilling - The route's billing declaration
+ */
+export function getRouteBilling(context: ZuploContext): RouteBilling {
+  let declared: unknown;
+  try {
+    declared = context.route.raw<{ "x-billing"?: unknown }>()?.["x-billing"];
+  } catch {
+    return DEFAULT_ROUTE_BILLING;
+  }
+
+  if (declared === undefined) {
+    return DEFAULT_ROUTE_BILLING;
+  }
+
+  const { billable, units } = (declared ?? {}) as { billable?: unknown; units?: unknown };
+  const unitsValid = units === undefined || (Number.isInteger(units) && (units as number) > 0);
+  if (typeof billable !== "boolean" || !unitsValid) {
+    context.log.error(
+      `Invalid x-billing on route ${context.route.path}: ${JSON.stringify(declared)}, using default`
+    );
+    return DEFAULT_ROUTE_BILLING;
+  }
+
+  return { billable, units: (units as number | undefined) ?? 1 };
+}
+
+/**
+ * Estimate the units a request will consume from its route price and body
+ *
+ * Reads a clone of the request so the body is still available to the handler.
+ * Unparseable or body-less requests cost the route's base units.
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - Zuplo context for logging
+ * @returns Promise<number> - Estimated units (0 for non-billable routes)
+ */
+export async function estimateRequestUnits(
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<number> {
+  const { billable, units } = getRouteBilling(context);
+  if (!billable) {
+    return 0;
+  }
+
+  if (request.method === "GET" || request.method === "HEAD") {
+    return units;
+  }
+
+  let body: CrawlRequestBody;
+  try {
+    body = await request.clone().json();
+  } catch (error) {
+    context.log.debug(`Metering: request body is not JSON, charging ${units} unit(s)`);
+    return units;
+  }
+
+  if (!body || !Array.isArray(body.urls) || body.urls.length === 0) {
+    return units;
+  }
+
+  const { extractionWeights } = getMeteringConfig();
+  const extractionType = typeof body.extraction_config?.type === "string"
+    ? body.extraction_config.type
+    : undefined;
+  const weight = (extractionType && extractionWeights[extractionType]) || 1;
+
+  return body.urls.length * units * weight;
+}
+
+/**
+ * Resolve the units to bill for a completed request
+ *
+ * @param response - The backend response
+ * @param context - Zuplo context (for the route's x-billing declaration)
+ * @param estimatedUnits - Units estimated from the request (QuotaInfo.requestUnits)
+ * @returns number - 0 for non-billable routes, else units reported by the backend,
+ *   or the estimate if absent/invalid
+ */
+export function resolveBilledUnits(
+  response: Response,
+  context: ZuploContext,
+  estimatedUnits: number | undefined
+): number {
+  if (!getRouteBilling(context).billable) {
+    return 0;
+  }
+
+  const reported = response.headers.get(UNITS_CONSUMED_HEADER);
+  if (reported !== null) {
+    const units = Number(reported);
+    if (Number.isInteger(units) && units >= 0) {
+      return units;
+    }
+  }
+  return estimatedUnits ?? getRouteBilling(context).units;
+}
@@ -0,0 +1,219 @@
+import { ZoneCache, ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { ConsumerApiError, getConsumer } from "./consumers";
+import { UsageCounterRef } from "./usage-counter";
+import { getBillingCycleAnchor } from "./billing-period";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Organizations - Inbound Policy
+ *
+ * Lets several API keys share one account. Each key stays its own consumer
+ * (jobs, webhooks and concurrency slots remain per key); its metadata names
+ * the organization:
+ *   { "organization": "acme", "keyQuota": 20000 }
+ * The organization is itself a consumer (usually without keys of its own)
+ * whose metadata holds the account's plan: tier, the Stripe subscription
+ * fields kept up to date by stripe-webhooks, billingCycleAnchor and
+ * maxMonthlyOverageSpend. Link the Stripe subscription to it with
+ * metadata.consumer = the organization's consumer name.
+ *
+ * Runs right after api-key-auth. For organization members it copies the
+ * organization's ACCOUNT_FIELDS over the key's own, so the policies after it
+ * see the organization's plan. Members share:
+ * - One quota and subscription (usage counters and billing follow the
+ *   organization's subscription item, or the organization for free plans)
+ * - One rate-limit bucket (see getAccountId)
+ *
+ * Per-key sub-limits (key metadata, optional):
+ * - keyQuota: Units the key may use per billing period, so one runaway
+ *   service cannot exhaust the organization's quota. Enforced by
+ *   quota-enforcement as a hard limit whatever the plan's enforcement mode
+ * - organizationRole: "owner" lets the key change organization settings
+ *   (e.g. the spend cap)
+ *
+ * Organization metadata is cached for ORGANIZATION_TTL_SECONDS, like
+ * api-key-auth caches key metadata. The key's own metadata is never used in
+ * its place (it would bill the organization's usage to the key's plan):
+ * - If the organization cannot be read, the last metadata read in this zone
+ *   (kept for LAST_KNOWN_TTL_SECONDS) is used, and the error is logged
+ * - Without it, or if the organization does not exist, the request is
+ *   rejected with 503 service-unavailable (fail closed)
+ *
+ * Requirements:
+ * - Environment variables: ZUPLO_DEVELOPER_API_KEY, ZUPLO_ACCOUNT_NAME, ZUPLO_API_KEY_BUCKET
+ */
+
+const ORGANIZATION_CACHE_NAME = "organizations";
+
+const ORGANIZATION_TTL_SECONDS = 60;
+
+// How long the last metadata read is kept to serve while the Developer API is failing
+const LAST_KNOWN_TTL_SECONDS = 24 * 60 * 60;
+
+// Organization metadata that replaces the member key's own
+const ACCOUNT_FIELDS = [
+  "tier",
+  "stripeSubscriptionId",
+  "stripeSubscriptionItemId",
+  "stripeCustomerId",
+  "subscriptionStatus",
+  "billingCycleAnchor",
+  "previousTier",
+  "tierChangedAt",
+  "maxMonthlyOverageSpend",
+];
+
+type RequestUser = NonNullable<ZuploRequest["user"]>;
+
+function getCache(context: ZuploContext): ZoneCache<Record<string, unknown>> {
+  return new ZoneCache<Record<string, unknown>>(ORGANIZATION_CACHE_NAME, context);
+}
+
+function lastKnownKey(organization: string): string {
+  return `last-known:${organization}`;
+}
+
+/**
+ * Read an organization's metadata, from the cache when fresh
+ *
+ * If the Developer API fails, the last metadata read is returned instead.
+ *
+ * @returns Promise<Record<string, unknown> | undefined> - The metadata, or
+ *   undefined if the organization does not exist
+ * @throws ConsumerApiError - If the Developer API is not configured or fails
+ *   and no earlier metadata is cached
+ */
+async function readOrganization(organization: string, context: ZuploContext): Promise<Record<string, unknown> | undefined> {
+  const cache = getCache(context);
+  const cached = await cache.get(organization);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const metadata = (await getConsumer(organization)).metadata ?? {};
+    await cache.put(organization, metadata, ORGANIZATION_TTL_SECONDS);
+    await cache.put(lastKnownKey(organization), metadata, LAST_KNOWN_TTL_SECONDS);
+    return metadata;
+  } catch (error) {
+    if (error instanceof ConsumerApiError && error.status === 404) {
+      await cache.delete(lastKnownKey(organization));
+      return undefined;
+    }
+    const lastKnown = await cache.get(lastKnownKey(organization));
+    if (lastKnown) {
+      context.log.warn(
+        `Organization lookup failed (using last known metadata): organization=${organization}, error=${error}`
+      );
+      return lastKnown;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the organization a key belongs to
+ *
+ * @param user - The authenticated consumer
+ * @returns string | undefined - Organization consumer name, or undefined for standalone keys
+ */
+export function getOrganization(user: RequestUser | undefined): string | undefined {
+  const organization = user?.data?.organization;
+  return typeof organization === "string" && organization ? organization : undefined;
+}
+
+/**
+ * Get the account a request is counted against: the key's organization, or
+ * the key itself
+ *
+ * Used to key rate limits and usage counters, so an organization's keys share them.
+ *
+ * @param user - The authenticated consumer
+ * @returns string - Organization or consumer name ("anonymous" without a user)
+ */
+export function getAccountId(user: RequestUser | undefined): string {
+  return getOrganization(user) ?? user?.sub ?? "anonymous";
+}
+
+/**
+ * Get the counter for a member key's own usage (for keyQuota and the per-key headers)
+ *
+ * @param user - The authenticated consumer
+ * @returns UsageCounterRef | undefined - The key's counter, or undefined for standalone keys
+ */
+export function getKeyUsageRef(user: RequestUser | undefined): UsageCounterRef | undefined {
+  if (!user || !getOrganization(user)) {
+    return undefined;
+  }
+  // Counted locally only: Stripe sees the organization's usage, not the key's
+  return { consumer: user.sub, billingCycleAnchor: getBillingCycleAnchor(user.data) };
+}
+
+/**
+ * Drop an organization's cached metadata, so changes apply on the next request
+ *
+ * @param organization - Organization consumer name
+ * @param context - Zuplo context
+ */
+export async function invalidateOrganization(organization: string, context: ZuploContext): Promise<void> {
+  await getCache(context).delete(organization);
+}
+
+/**
+ * Inbound policy to apply the key's organization account
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context with logging
+ * @param options - Policy options (unused)
+ * @param policyName - The name of the policy being applied
+ * @returns The request, with the organization's plan on user data for members
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: unknown,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  const user = request.user;
+  const organization = getOrganization(user);
+  if (!user || !organization) {
+    return request;
+  }
+
+  let metadata: Record<string, unknown> | undefined;
+  try {
+    metadata = await readOrganization(organization, context);
+  } catch (error) {
+    context.log.error(
+      `Organization lookup failed (request rejected): user=${user.sub}, organization=${organization}, error=${error}`
+    );
+    return gatewayProblem(
+      request,
+      context,
+      "service-unavailable",
+      "Your organization's account cannot be loaded right now. Please try again later."
+    );
+  }
+  if (!metadata) {
+    context.log.error(
+      `Organization not found (request rejected): user=${user.sub}, organization=${organization}, policy=${policyName}`
+    );
+    return gatewayProblem(
+      request,
+      context,
+      "service-unavailable",
+      "This API key's organization could not be found. Please contact support."
+    );
+  }
+
+  for (const field of ACCOUNT_FIELDS) {
+    if (metadata[field] === undefined) {
+      delete user.data[field];
+    } else {
+      user.data[field] = metadata[field];
+    }
+  }
+
+  context.log.debug(`Organization applied: user=${user.sub}, organization=${organization}, tier=${user.data.tier}`);
+  return request;
+}
@@ -0,0 +1,334 @@
+import { ZuploContext } from "@zuplo/runtime";
+import planCatalogConfig from "../config/plans.json";
+
+/**
+ * Plan Catalog
+ *
+ * Single source of truth for tier plans. Every policy that needs a rate limit,
+ * quota or overage rate reads it from here instead of keeping its own table.
+ *
+ * The catalog is loaded from config/plans.json and validated once at startup
+ * (see zuplo.runtime.ts). An invalid catalog fails the deployment instead of
+ * silently falling back to wrong limits at request time.
+ *
+ * Each tier defines:
+ * - requestsPerHour: Hourly rate limit
+ * - requestsPerSecond: Burst limit (requests per second)
+ * - maxConcurrentJobs: Crawl jobs a consumer may have in flight at once
+ * - monthlyQuota: Monthly quota (metered units)
+ * - overageRate: $ per 1000 units beyond the quota (0 = no overage billing)
+ * - enforcement: What happens once the quota is used up (default "soft"):
+ *   - "soft": Always allow; usage beyond the quota is billed as overage
+ *   - "hard": Reject requests that would exceed the quota (402)
+ *   - "grace:N%": Allow up to N% beyond the quota, then reject (402)
+ * - routes: Per-route overrides keyed by OpenAPI operationId
+ *
+ * The catalog also holds the upgrade link shown when a quota blocks a request
+ * and the metering weights used to turn a request into
+ * billable units (see metering.ts).
+ */
+
+/**
+ * Per-route plan overrides (keyed by operationId in the catalog)
+ */
+export interface RouteOverride {
+  requestsPerHour?: number;
+}
+
+/**
+ * Parsed quota enforcement mode
+ * - gracePercent: Allowance beyond the quota (only for "grace")
+ */
+export interface QuotaEnforcement {
+  mode: "soft" | "hard" | "grace";
+  gracePercent: number;
+}
+
+/**
+ * Plan definition for a single tier
+ */
+export interface PlanDefinition {
+  tier: string;
+  requestsPerHour: number;
+  requestsPerSecond: number;
+  maxConcurrentJobs: number;
+  monthlyQuota: number;
+  overageRate: number;
+  enforcement: QuotaEnforcement;
+  routes: Record<string, RouteOverride>;
+}
+
+/**
+ * Metering weights shared by all tiers
+ * - extractionWeights: Multiplier per extraction_config.type (missing types weigh 1)
+ *
+ * Per-route unit prices live in routes.oas.json (x-billing), not here.
+ */
+export interface MeteringConfig {
+  extractionWeights: Record<string, number>;
+}
+
+/**
+ * Validated plan catalog
+ */
+export interface PlanCatalog {
+  defaultTier: string;
+  upgradeUrl: string;
+  tiers: Record<string, PlanDefinition>;
+  metering: MeteringConfig;
+}
+
+/**
+ * Thrown when config/plans.json does not describe a valid catalog
+ */
+export class PlanCatalogError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid plan catalog:\n- ${issues.join("\n- ")}`);
+    this.name = "PlanCatalogError";
+  }
+}
+
+let catalog: PlanCatalog | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Parse an enforcement mode string ("soft", "hard" or "grace:N%")
+ *
+ * @returns QuotaEnforcement | undefined - The parsed mode, or undefined if invalid
+ */
+function parseEnforcement(value: unknown): QuotaEnforcement | undefined {
+  if (value === undefined || value === "soft") {
+    return { mode: "soft", gracePercent: 0 };
+  }
+  if (value === "hard") {
+    return { mode: "hard", gracePercent: 0 };
+  }
+  const grace = typeof value === "string" ? /^grace:(\d+(?:\.\d+)?)%$/.exec(value) : null;
+  if (grace) {
+    return { mode: "grace", gracePercent: Number(grace[1]) };
+  }
+  return undefined;
+}
+
+/**
+ * Validate a raw catalog object
+ *
+ * Collects every problem rather than stopping at the first one, so a bad
+ * config edit can be fixed in a single pass.
+ *
+ * @param raw - Parsed contents of config/plans.json
+ * @returns PlanCatalog - The validated catalog
+ * @throws PlanCatalogError - If the catalog is invalid
+ */
+export function validatePlanCatalog(raw: unknown): PlanCatalog {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new PlanCatalogError(["catalog must be an object"]);
+  }
+
+  if (!isRecord(raw.tiers) || Object.keys(raw.tiers).length === 0) {
+    throw new PlanCatalogError(["tiers must be a non-empty object"]);
+  }
+
+  const tiers: Record<string, PlanDefinition> = {};
+
+  for (const [tier, value] of Object.entries(raw.tiers)) {
+    if (!isRecord(value)) {
+      issues.push(`tiers.${tier} must be an object`);
+      continue;
+    }
+
+    if (!isPositiveInteger(value.requestsPerHour)) {
+      issues.push(`tiers.${tier}.requestsPerHour must be a positive integer`);
+    }
+    if (!isPositiveInteger(value.requestsPerSecond)) {
+      issues.push(`tiers.${tier}.requestsPerSecond must be a positive integer`);
+    }
+    if (!isPositiveInteger(value.maxConcurrentJobs)) {
+      issues.push(`tiers.${tier}.maxConcurrentJobs must be a positive integer`);
+    }
+    if (!isPositiveInteger(value.monthlyQuota)) {
+      issues.push(`tiers.${tier}.monthlyQuota must be a positive integer`);
+    }
+    if (!isNonNegativeNumber(value.overageRate)) {
+      issues.push(`tiers.${tier}.overageRate must be a non-negative number`);
+    }
+    const enforcement = parseEnforcement(value.enforcement);
+    if (!enforcement) {
+      issues.push(`tiers.${tier}.enforcement must be "soft", "hard" or "grace:N%"`);
+    }
+
+    const routes: Record<string, RouteOverride> = {};
+    if (value.routes !== undefined && !isRecord(value.routes)) {
+      issues.push(`tiers.${tier}.routes must be an object`);
+    } else if (value.routes) {
+      for (const [routeId, override] of Object.entries(value.routes)) {
+        if (!isRecord(override)) {
+          issues.push(`tiers.${tier}.routes.${routeId} must be an object`);
+          continue;
+        }
+        if (
+          override.requestsPerHour !== undefined &&
+          !isPositiveInteger(override.requestsPerHour)
+        ) {
+          issues.push(
+            `tiers.${tier}.routes.${routeId}.requestsPerHour must be a positive integer`
+          );
+        }
+        routes[routeId] = { requestsPerHour: override.requestsPerHour as number | undefined };
+      }
+    }
+
+    tiers[tier] = {
+      tier,
+      requestsPerHour: value.requestsPerHour as number,
+      requestsPerSecond: value.requestsPerSecond as number,
+      maxConcurrentJobs: value.maxConcurrentJobs as number,
+      monthlyQuota: value.monthlyQuota as number,
+      overageRate: value.overageRate as number,
+      enforcement: enforcement ?? { mode: "soft", gracePercent: 0 },
+      routes,
+    };
+  }
+
+  const defaultTier = raw.defaultTier;
+  if (typeof defaultTier !== "string" || !(defaultTier in tiers)) {
+    issues.push(`defaultTier must name one of the defined tiers (${Object.keys(tiers).join(", ")})`);
+  }
+
+  const upgradeUrl = raw.upgradeUrl;
+  if (typeof upgradeUrl !== "string" || !URL.canParse(upgradeUrl)) {
+    issues.push("upgradeUrl must be an absolute URL");
+  }
+
+  const metering: MeteringConfig = { extractionWeights: {} };
+  const weights = isRecord(raw.metering) ? raw.metering.extractionWeights : undefined;
+  if (raw.metering !== undefined && !isRecord(raw.metering)) {
+    issues.push("metering must be an object");
+  } else if (weights !== undefined && !isRecord(weights)) {
+    issues.push("metering.extractionWeights must be an object");
+  } else if (weights) {
+    for (const [type, weight] of Object.entries(weights)) {
+      if (!isPositiveInteger(weight)) {
+        issues.push(`metering.extractionWeights.${type} must be a positive integer`);
+      }
+      metering.extractionWeights[type] = weight as number;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PlanCatalogError(issues);
+  }
+
+  return { defaultTier: defaultTier as string, upgradeUrl: upgradeUrl as string, tiers, metering };
+}
+
+/**
+ * Load and validate the plan catalog (cached after the first call)
+ *
+ * @returns PlanCatalog - The validated catalog
+ * @throws PlanCatalogError - If config/plans.json is invalid
+ */
+export function loadPlanCatalog(): PlanCatalog {
+  if (!catalog) {
+    catalog = validatePlanCatalog(planCatalogConfig);
+  }
+  return catalog;
+}
+
+/**
+ * Get the plan for a tier, falling back to the default tier if unknown
+ *
+ * @param tier - Tier name from consumer metadata
+ * @returns PlanDefinition - The plan for the tier
+ */
+export function getPlan(tier: string | undefined): PlanDefinition {
+  const { defaultTier, tiers } = loadPlanCatalog();
+  return (tier && tiers[tier]) || tiers[defaultTier];
+}
+
+/**
+ * Get the plan upgrade link from the catalog
+ *
+ * @returns string - URL where consumers can upgrade their plan
+ */
+export function getUpgradeUrl(): string {
+  return loadPlanCatalog().upgradeUrl;
+}
+
+/**
+ * Get the maximum usage a plan allows before requests are rejected
+ *
+ * @param plan - The consumer's plan
+ * @param quota - Units included this period (defaults to the plan's monthly
+ *   quota; differs when the quota is prorated)
+ * @returns number - Units allowed per period (Infinity for soft enforcement)
+ */
+export function getHardLimit(plan: PlanDefinition, quota: number = plan.monthlyQuota): number {
+  switch (plan.enforcement.mode) {
+    case "hard":
+      return quota;
+    case "grace":
+      return Math.floor(quota * (1 + plan.enforcement.gracePercent / 100));
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Estimate the cost of overage usage
+ *
+ * @param overageUnits - Units beyond the monthly quota
+ * @param overageRate - $ per 1000 units
+ * @returns number - Estimated cost in dollars
+ */
+export function estimateOverageCost(overageUnits: number, overageRate: number): number {
+  return (overageUnits / 1000) * overageRate;
+}
+
+/**
+ * Get the metering weights from the catalog
+ *
+ * @returns MeteringConfig - Extraction weights
+ */
+export function getMeteringConfig(): MeteringConfig {
+  return loadPlanCatalog().metering;
+}
+
+/**
+ * Get the OpenAPI operationId of the current route (used for per-route overrides)
+ *
+ * @param context - Zuplo context
+ * @returns string | undefined - The operationId, if the route declares one
+ */
+export function getRouteId(context: ZuploContext): string | undefined {
+  try {
+    return context.route.raw<{ operationId?: string }>()?.operationId;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the hourly rate limit for a plan, applying any per-route override
+ *
+ * @param plan - The consumer's plan
+ * @param routeId - The route's operationId
+ * @returns number - Requests allowed per hour
+ */
+export function getRequestsPerHour(plan: PlanDefinition, routeId: string | undefined): number {
+  const override = routeId ? plan.routes[routeId] : undefined;
+  return override?.requestsPerHour ?? plan.requestsPerHour;
+}
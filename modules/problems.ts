@@ -0,0 +1,203 @@
+import { HttpProblems, ZuploContext, ZuploRequest } from "@zuplo/runtime";
+
+/**
+ * Gateway Problem Responses
+ *
+ * Every error the gateway itself produces is an RFC 9457 problem
+ * (application/problem+json) with:
+ * - type: A stable URI per error kind, documented on the portal's errors page
+ *   (docs/pages/errors.mdx). Clients should branch on type, not on title or detail
+ * - title, status, detail, instance (the request path)
+ * - requestId: Matches the request ID in gateway logs and the X-Request-ID header
+ * - tier: The consumer's plan tier, when the request is authenticated
+ * - Extension members specific to the error (quota, limit, field errors, ...)
+ *
+ * Errors raised by built-in Zuplo policies (e.g. 401 from api-key-auth) are
+ * rewritten into the same format by normalizeProblemResponse (see zuplo.runtime.ts).
+ */
+
+/**
+ * Base URI of the problem types (anchors on the portal's errors page)
+ */
+export const PROBLEM_TYPE_BASE = "https://portal.crawl4ai.com/errors#";
+
+type ProblemFactory = (typeof HttpProblems)[keyof typeof HttpProblems];
+
+/**
+ * Known problem types: status, title and the HttpProblems helper that builds them
+ */
+const PROBLEM_TYPES = {
+  "bad-request": { status: 400, title: "Bad Request", factory: HttpProblems.badRequest },
+  unauthorized: { status: 401, title: "Unauthorized", factory: HttpProblems.unauthorized },
+  "quota-exceeded": { status: 402, title: "Quota Exceeded", factory: HttpProblems.paymentRequired },
+  "spend-cap-reached": { status: 402, title: "Spend Cap Reached", factory: HttpProblems.paymentRequired },
+  forbidden: { status: 403, title: "Forbidden", factory: HttpProblems.forbidden },
+  "not-found": { status: 404, title: "Not Found", factory: HttpProblems.notFound },
+  conflict: { status: 409, title: "Conflict", factory: HttpProblems.conflict },
+  "payload-too-large": { status: 413, title: "Payload Too Large", factory: HttpProblems.contentTooLarge },
+  "disallowed-target-url": {
+    status: 422,
+    title: "Disallowed Target URLs",
+    factory: HttpProblems.unprocessableContent,
+  },
+  "rate-limit-exceeded": { status: 429, title: "Rate Limit Exceeded", factory: HttpProblems.tooManyRequests },
+  "concurrency-limit-exceeded": {
+    status: 429,
+    title: "Concurrent Job Limit Reached",
+    factory: HttpProblems.tooManyRequests,
+  },
+  "internal-error": { status: 500, title: "Internal Server Error", factory: HttpProblems.internalServerError },
+  "bad-gateway": { status: 502, title: "Bad Gateway", factory: HttpProblems.badGateway },
+  "service-unavailable": { status: 503, title: "Service Unavailable", factory: HttpProblems.serviceUnavailable },
+  "gateway-timeout": { status: 504, title: "Gateway Timeout", factory: HttpProblems.gatewayTimeout },
+} satisfies Record<string, { status: number; title: string; factory: ProblemFactory }>;
+
+/**
+ * Problem type slug (the part of the type URI after PROBLEM_TYPE_BASE)
+ */
+export type ProblemType = keyof typeof PROBLEM_TYPES;
+
+// Problem type used when a built-in policy's error is rewritten, by status
+const PROBLEM_TYPE_BY_STATUS: Record<number, ProblemType> = {
+  400: "bad-request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not-found",
+  409: "conflict",
+  413: "payload-too-large",
+  429: "rate-limit-exceeded",
+  500: "internal-error",
+  502: "bad-gateway",
+  503: "service-unavailable",
+  504: "gateway-timeout",
+};
+
+/**
+ * Get the stable type URI for a problem type
+ *
+ * @param type - Problem type slug
+ * @returns string - The type URI
+ */
+export function problemTypeUri(type: ProblemType): string {
+  return `${PROBLEM_TYPE_BASE}${type}`;
+}
+
+/**
+ * Build a problem+json response for a gateway error
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param type - Problem type slug
+ * @param detail - Human-readable explanation of this occurrence
+ * @param extensions - Extra problem members (quota, limits, field errors, ...)
+ * @param headers - Extra response headers (e.g. Retry-After)
+ * @returns Promise<Response> - The problem response
+ */
+export function gatewayProblem(
+  request: ZuploRequest,
+  context: ZuploContext,
+  type: ProblemType,
+  detail: string,
+  extensions: Record<string, unknown> = {},
+  headers?: HeadersInit
+): Promise<Response> {
+  const { title, factory } = PROBLEM_TYPES[type];
+  const tier = request.user ? (request.user.data?.tier as string) || "free" : undefined;
+
+  return factory(
+    request,
+    context,
+    {
+      type: problemTypeUri(type),
+      title,
+      detail,
+      instance: new URL(request.url).pathname,
+      requestId: context.requestId,
+      ...(tier ? { tier } : {}),
+      ...extensions,
+    },
+    // HttpProblems spreads the headers into an object, which drops every entry of a Headers instance
+    headers && Object.fromEntries(new Headers(headers))
+  );
+}
+
+/**
+ * Read the body of a problem response produced by a built-in policy
+ *
+ * @param response - The outgoing response
+ * @param context - The Zuplo context
+ * @returns Promise<Record<string, unknown> | undefined> - The problem body ({ detail }
+ *   for plain-text errors), or undefined for backend responses, gateway problems
+ *   and other responses
+ */
+export async function readBuiltInProblem(
+  response: Response,
+  context: ZuploContext
+): Promise<Record<string, unknown> | undefined> {
+  if (response.status < 400 || context.custom.backendId) {
+    return undefined;
+  }
+
+  // Some built-in policies (e.g. request-size-limit) answer with plain text
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType || contentType.startsWith("text/plain")) {
+    const detail = (await response.clone().text()).trim();
+    return detail ? { detail } : {};
+  }
+  if (!contentType.includes("application/problem+json")) {
+    return undefined;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await response.clone().json();
+  } catch {
+    return undefined;
+  }
+  if (typeof body?.type === "string" && body.type.startsWith(PROBLEM_TYPE_BASE)) {
+    return undefined;
+  }
+  return body;
+}
+
+/**
+ * Rewrite problem responses from built-in policies into the gateway's format
+ *
+ * Responses from the backend (context.custom.backendId is set once the proxy
+ * picked one), responses that already carry a gateway type URI, and responses
+ * that are neither problem+json nor plain text are returned unchanged.
+ *
+ * @param response - The outgoing response
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @returns Promise<Response> - The response, in gateway problem format if it was a problem
+ */
+export async function normalizeProblemResponse(
+  response: Response,
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<Response> {
+  const body = await readBuiltInProblem(response, context);
+  if (!body) {
+    return response;
+  }
+
+  const type = PROBLEM_TYPE_BY_STATUS[response.status];
+  if (!type) {
+    return response;
+  }
+
+  const { type: _type, title: _title, status: _status, detail, instance: _instance, ...extensions } = body;
+  const headers = new Headers(response.headers);
+  headers.delete("content-type");
+  headers.delete("content-length");
+
+  return gatewayProblem(
+    request,
+    context,
+    type,
+    typeof detail === "string" ? detail : PROBLEM_TYPES[type].title,
+    extensions,
+    headers
+  );
+}
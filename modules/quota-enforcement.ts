@@ -1,244 +1,252 @@
-import { ZuploContext, ZuploRequest, environment } from "@zuplo/runtime";
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { PlanDefinition, estimateOverageCost, getHardLimit, getPlan, getUpgradeUrl } from "./plans";
+import { estimateRequestUnits } from "./metering";
+import { getCurrentUsage, getUsageCounterRef } from "./usage-counter";
+import { BillingProvider, getBillingProvider } from "./billing-provider";
+import { getAccountId, getKeyUsageRef, getOrganization } from "./organizations";
+import { BillingPeriod, getBillingPeriod, prorate } from "./billing-period";
+import { setQuotaHeaders } from "./quota-headers";
+import { gatewayProblem } from "./problems";
 
 /**
  * Quota Enforcement - Inbound Policy
  *
- * This policy checks monthly quota usage before allowing requests.
+ * This policy checks quota usage for the current billing period before allowing
+ * requests. Usage and quota are measured in metered units (see metering.ts), not requests.
  * Features:
- * - Fetches current usage from Stripe API
- * - Compares against tier quota (100k, 1M, 10M)
- * - ALWAYS ALLOWS (pay-as-you-go model)
+ * - Reads current usage from the usage counter (see usage-counter.ts),
+ *   which is incremented on every billable request and reconciled against Stripe
+ * - Estimates the units this request will consume
+ * - Compares against the tier quota from the plan catalog (config/plans.json)
+ * - Periods follow the consumer's subscription billing cycle (see
+ *   billing-period.ts); the quota and reset date are those of the current period
+ * - A tier change part-way through a period prorates the quota: each tier's
+ *   quota counts for the share of the period it was active
+ * - Applies the tier's enforcement mode:
+ *   - soft: ALWAYS ALLOWS (pay-as-you-go model)
+ *   - hard / grace:N%: Rejects requests that would take usage past the quota
+ *     (plus the grace allowance) with 402 Payment Required
+ * - Enforces the consumer's own monthly overage spend cap, if set: requests whose
+ *   estimated overage cost would exceed it are rejected with 402
+ * - Organization members (see organizations.ts) share their organization's
+ *   quota; a key with its own keyQuota sub-limit is also rejected with 402
+ *   once its own usage would pass it
+ * - Free routes (0 units) are never rejected
  * - Stores quota info in request context for headers
- * - Caches Stripe responses (1 minute TTL) to reduce API calls
  *
  * Error handling: Failures are graceful (fail open, allow request)
  *
  * Requirements:
- * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE
- * - Consumer metadata: tier, stripeSubscriptionItemId, quota
+ * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE,
+ *   STRIPE_METER_EVENT_NAME, STRIPE_METER_ID_TEST, STRIPE_METER_ID_LIVE
+ * - Consumer metadata: tier, stripeSubscriptionItemId, stripeCustomerId, quota
+ * - Optional consumer metadata: maxMonthlyOverageSpend ($, see account.ts),
+ *   billingCycleAnchor, previousTier, tierChangedAt (see stripe-webhooks.ts),
+ *   organization, keyQuota (see organizations.ts)
  */
 
-// Tier quotas (monthly requests)
-const TIER_QUOTAS: Record<string, number> = {
-  free: 10000,
-  crawler: 100000,
-  spider: 1000000,
-  enterprise: 10000000,
-};
-
-// Overage rates ($ per 1000 requests)
-const OVERAGE_RATES: Record<string, number> = {
-  free: 0,        // No overage for free tier
-  crawler: 0.50,  // $0.50/1k
-  spider: 0.20,   // $0.20/1k
-  enterprise: 0.10, // $0.10/1k
-};
-
-// Cache TTL in milliseconds (1 minute)
-const CACHE_TTL = 60 * 1000;
-
 /**
  * QuotaInfo structure stored in request context
+ * (limit/used/remaining/overage are in metered units)
  */
 export interface QuotaInfo {
   limit: number;
   used: number;
+  requestUnits: number;
   remaining: number;
   overage: number;
   isOverage: boolean;
   overageRate: number;
   resetDate: string;
   tier: string;
+  spendCap?: number;
+  spendCapRemaining?: number;
+  unitsCredited?: number;
+  organization?: string;
+  keyUsed?: number;
+  keyLimit?: number;
+  keyRemaining?: number;
 }
 
 /**
- * Cached usage data structure
- */
-interface CachedUsage {
-  usage: number;
-  timestamp: number;
-}
-
-/**
- * Get monthly usage from Stripe API
+ * Get the quota for the current period, prorated if the tier changed during it
+ *
+ * Only the most recent tier change is recorded, so a second change in the
+ * same period prorates between the last two tiers.
  *
- * @param subscriptionItemId - Stripe subscription item ID
- * @param stripeKey - Stripe API secret key
- * @param context - Zuplo context for logging
- * @returns Promise<number> - Total usage for current period, or 0 on failure
+ * @param plan - The consumer's current plan
+ * @param data - Consumer metadata (previousTier, tierChangedAt in Unix seconds)
+ * @param period - The current billing period
+ * @returns number - Units included this period
  */
-async function getMonthlyUsage(
-  subscriptionItemId: string,
-  stripeKey: string,
-  context: ZuploContext
-): Promise<number> {
-  try {
-    const response = await fetch(
-      `https://api.stripe.com/v1/subscription_items/${subscriptionItemId}/usage_record_summaries`,
-      {
-        headers: {
-          Authorization: `Bearer ${stripeKey}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      context.log.warn(
-        `Stripe usage query failed: status=${response.status}, error=${errorText}`
-      );
-      return 0; // Fail open
-    }
-
-    const data = await response.json();
-
-    // Get the most recent period's usage
-    if (data.data && data.data.length > 0) {
-      const currentPeriod = data.data[0];
-      context.log.info(
-        `Stripe usage: subscriptionItemId=${subscriptionItemId}, usage=${currentPeriod.total_usage}`
-      );
-      return currentPeriod.total_usage || 0;
-    }
-
-    return 0;
-  } catch (error) {
-    context.log.error(`Stripe usage query exception: ${error}`);
-    return 0; // Fail open
+function getPeriodQuota(plan: PlanDefinition, data: Record<string, unknown> | undefined, period: BillingPeriod): number {
+  const previousTier = data?.previousTier;
+  const changedAt = data?.tierChangedAt;
+  if (typeof previousTier !== "string" || typeof changedAt !== "number") {
+    return plan.monthlyQuota;
   }
+  return prorate(getPlan(previousTier).monthlyQuota, plan.monthlyQuota, changedAt * 1000, period);
 }
 
 /**
- * Get cached usage or fetch from Stripe
+ * Build the 402 response for a request blocked by hard or grace enforcement
  *
- * @param subscriptionItemId - Stripe subscription item ID
- * @param stripeKey - Stripe API secret key
- * @param context - Zuplo context
- * @returns Promise<number> - Current usage
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param quotaInfo - Quota state for the consumer
+ * @param allowed - Units allowed this period (quota plus any grace allowance)
+ * @returns Promise<Response> - 402 Payment Required with quota headers
  */
-async function getCachedUsage(
-  subscriptionItemId: string,
-  stripeKey: string,
-  context: ZuploContext
-): Promise<number> {
-  const cacheKey = `quota-usage:${subscriptionItemId}`;
-
-  try {
-    // Try to get cached value
-    const cached = await environment.get(cacheKey);
-
-    if (cached) {
-      const cachedData: CachedUsage = JSON.parse(cached);
-      const age = Date.now() - cachedData.timestamp;
-
-      if (age < CACHE_TTL) {
-        context.log.debug(
-          `Using cached usage: age=${Math.round(age / 1000)}s, usage=${cachedData.usage}`
-        );
-        return cachedData.usage;
-      }
-    }
-  } catch (error) {
-    context.log.warn(`Cache read failed: ${error}`);
-  }
-
-  // Cache miss or expired, fetch from Stripe
-  const usage = await getMonthlyUsage(subscriptionItemId, stripeKey, context);
-
-  // Store in cache
-  try {
-    const cacheData: CachedUsage = {
-      usage,
-      timestamp: Date.now(),
-    };
-    await environment.set(cacheKey, JSON.stringify(cacheData), CACHE_TTL / 1000);
-  } catch (error) {
-    context.log.warn(`Cache write failed: ${error}`);
-  }
+function quotaExceededResponse(
+  request: ZuploRequest,
+  context: ZuploContext,
+  quotaInfo: QuotaInfo,
+  allowed: number
+): Promise<Response> {
+  const available = Math.max(0, allowed - quotaInfo.used);
+  const headers = new Headers();
+  setQuotaHeaders(headers, quotaInfo, 0);
 
-  return usage;
+  return gatewayProblem(
+    request,
+    context,
+    "quota-exceeded",
+    `This request needs ${quotaInfo.requestUnits} units but only ${available} of your ` +
+      `${quotaInfo.tier} plan's allowance remain until ${quotaInfo.resetDate}. ` +
+      `Upgrade your plan to continue.`,
+    {
+      tier: quotaInfo.tier,
+      limit: quotaInfo.limit,
+      allowed,
+      used: quotaInfo.used,
+      requestUnits: quotaInfo.requestUnits,
+      resetDate: quotaInfo.resetDate,
+      upgradeUrl: getUpgradeUrl(),
+    },
+    headers
+  );
 }
 
 /**
- * Calculate reset date (first day of next month)
+ * Build the 402 response for a request blocked by an organization key's sub-limit
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param quotaInfo - Quota state for the consumer (with keyLimit set)
+ * @returns Promise<Response> - 402 Payment Required with quota headers
  */
-function getResetDate(): string {
-  const now = new Date();
-  const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  return nextMonth.toISOString().split('T')[0]; // YYYY-MM-DD
+function keyQuotaExceededResponse(
+  request: ZuploRequest,
+  context: ZuploContext,
+  quotaInfo: QuotaInfo
+): Promise<Response> {
+  const available = Math.max(0, quotaInfo.keyLimit! - quotaInfo.keyUsed!);
+  const headers = new Headers();
+  setQuotaHeaders(headers, quotaInfo, 0);
+
+  return gatewayProblem(
+    request,
+    context,
+    "quota-exceeded",
+    `This request needs ${quotaInfo.requestUnits} units but only ${available} of this API key's ` +
+      `limit of ${quotaInfo.keyLimit} units remain until ${quotaInfo.resetDate}. ` +
+      `Ask an owner of the ${quotaInfo.organization} organization to raise the key's limit.`,
+    {
+      tier: quotaInfo.tier,
+      organization: quotaInfo.organization,
+      keyLimit: quotaInfo.keyLimit,
+      keyUsed: quotaInfo.keyUsed,
+      requestUnits: quotaInfo.requestUnits,
+      resetDate: quotaInfo.resetDate,
+    },
+    headers
+  );
 }
 
 /**
- * Inbound policy to enforce quota limits (pay-as-you-go)
- *
- * This policy:
- * 1. Retrieves tier and Stripe subscription info from user metadata
- * 2. Fetches current usage from Stripe (with caching)
- * 3. Calculates quota status (limit, used, remaining, overage)
- * 4. ALWAYS ALLOWS request (pay-as-you-go model)
- * 5. Stores quota info in request context for headers
- * 6. Gracefully handles errors (fail open)
+ * Build the 402 response for a request blocked by the consumer's spend cap
  *
  * @param request - The incoming Zuplo request
- * @param context - The Zuplo context with env vars and logging
- * @param policyName - The name of the policy being applied
- * @returns The original request with quotaInfo attached to user data
+ * @param context - The Zuplo context
+ * @param quotaInfo - Quota state for the consumer (with spendCap set)
+ * @param projectedCost - Overage cost if this request were served
+ * @returns Promise<Response> - 402 Payment Required with quota headers
  */
-export default async function (
+function spendCapExceededResponse(
   request: ZuploRequest,
   context: ZuploContext,
-  policyName: string
-): Promise<ZuploRequest> {
-  // Get user data from authenticated request
-  const user = request.user;
+  quotaInfo: QuotaInfo,
+  projectedCost: number
+): Promise<Response> {
+  const headers = new Headers();
+  setQuotaHeaders(headers, quotaInfo, 0);
 
-  if (!user) {
-    context.log.warn("Quota enforcement: no authenticated user");
-    return request;
-  }
+  return gatewayProblem(
+    request,
+    context,
+    "spend-cap-reached",
+    `This request would bring your overage to ~$${projectedCost.toFixed(2)}, above your monthly ` +
+      `spend cap of $${quotaInfo.spendCap!.toFixed(2)}. Raise the cap or wait until ${quotaInfo.resetDate}.`,
+    {
+      tier: quotaInfo.tier,
+      spendCap: quotaInfo.spendCap,
+      spendCapRemaining: quotaInfo.spendCapRemaining,
+      projectedCost: Number(projectedCost.toFixed(2)),
+      requestUnits: quotaInfo.requestUnits,
+      resetDate: quotaInfo.resetDate,
+    },
+    headers
+  );
+}
 
-  // Extract tier and quota from user metadata
+/**
+ * Check a request against the consumer's quota
+ *
+ * @returns The request with quotaInfo attached to user data, or a 402 response
+ * @throws If usage, the request's units or the key's usage cannot be read
+ */
+async function enforceQuota(
+  request: ZuploRequest,
+  user: NonNullable<ZuploRequest["user"]>,
+  context: ZuploContext
+): Promise<ZuploRequest | Response> {
+  // Extract tier from user metadata and look up its plan
   const tier = (user.data?.tier as string) || "free";
-  const quota = TIER_QUOTAS[tier] || TIER_QUOTAS.free;
-  const overageRate = OVERAGE_RATES[tier] || 0;
-
-  // Extract Stripe subscription info
-  const subscriptionItemId = user.data?.stripeSubscriptionItemId as string | undefined;
+  const plan = getPlan(tier);
+  const overageRate = plan.overageRate;
 
-  // Default quota info (for free tier or users without Stripe)
-  let usage = 0;
+  // Extract Stripe subscription info and the billing period it implies
+  const usageRef = getUsageCounterRef(getAccountId(user), user.data);
+  const subscriptionItemId = usageRef.subscriptionItemId;
+  const period = getBillingPeriod(Date.now(), usageRef.billingCycleAnchor);
+  const quota = getPeriodQuota(plan, user.data, period);
 
-  // Fetch usage from Stripe if available
+  // Read usage from the counter (reconciled against Stripe when a subscription exists)
+  let provider: BillingProvider | undefined;
   if (subscriptionItemId) {
-    // Get Stripe API key from environment
-    const stripeMode = context.env.STRIPE_MODE || "test";
-    const stripeKey = stripeMode === "live"
-      ? context.env.STRIPE_SECRET_KEY_LIVE
-      : context.env.STRIPE_SECRET_KEY_TEST;
-
-    if (stripeKey) {
-      usage = await getCachedUsage(subscriptionItemId, stripeKey, context);
-    } else {
-      context.log.error(
-        `Stripe key not configured: mode=${stripeMode}, missing STRIPE_SECRET_KEY_${stripeMode.toUpperCase()}`
-      );
-    }
+    // Get the billing provider (a missing Stripe key or meter is logged)
+    provider = getBillingProvider(context);
   } else {
     context.log.debug(
-      `No Stripe subscription for user=${user.sub}, tier=${tier} (expected for free tier)`
+      `No Stripe subscription for user=${user.sub}, tier=${tier} (expected for free tier, counted locally)`
     );
   }
+  const usage = await getCurrentUsage(usageRef, provider, context);
+
+  // Estimate the units this request will consume (billing may refine it from the response)
+  const requestUnits = await estimateRequestUnits(request, context);
 
   // Calculate quota status
   const remaining = Math.max(0, quota - usage);
   const overage = Math.max(0, usage - quota);
   const isOverage = usage >= quota;
-  const resetDate = getResetDate();
+  const resetDate = period.end.toISOString().split("T")[0]; // YYYY-MM-DD
 
   // Create quota info object
   const quotaInfo: QuotaInfo = {
     limit: quota,
     used: usage,
+    requestUnits,
     remaining,
     overage,
     isOverage,
@@ -247,6 +255,26 @@ export default async function (
     tier,
   };
 
+  // Apply the consumer's overage spend cap, if set
+  const spendCap = user.data?.maxMonthlyOverageSpend;
+  if (typeof spendCap === "number" && spendCap >= 0 && overageRate > 0) {
+    quotaInfo.spendCap = spendCap;
+    quotaInfo.spendCapRemaining = Math.max(0, spendCap - estimateOverageCost(overage, overageRate));
+  }
+
+  // Organization members: the key's own usage, and its sub-limit if set
+  const keyRef = getKeyUsageRef(user);
+  const keyUsed = keyRef ? await getCurrentUsage(keyRef, undefined, context) : undefined;
+  if (keyUsed !== undefined) {
+    quotaInfo.organization = getOrganization(user);
+    quotaInfo.keyUsed = keyUsed;
+    const keyQuota = user.data?.keyQuota;
+    if (typeof keyQuota === "number" && keyQuota >= 0) {
+      quotaInfo.keyLimit = keyQuota;
+      quotaInfo.keyRemaining = Math.max(0, keyQuota - keyUsed);
+    }
+  }
+
   // Store quota info in request user data (for headers and billing)
   if (!user.data) {
     user.data = {};
@@ -260,10 +288,87 @@ export default async function (
     );
   } else {
     context.log.info(
-      `Quota check: user=${user.sub}, tier=${tier}, used=${usage}, remaining=${remaining}`
+      `Quota check: user=${user.sub}, tier=${tier}, used=${usage}, remaining=${remaining}, requestUnits=${requestUnits}`
+    );
+  }
+
+  // Reject if the tier enforces a limit this request would exceed
+  const hardLimit = getHardLimit(plan, quota);
+  if (requestUnits > 0 && usage + requestUnits > hardLimit) {
+    context.log.warn(
+      `Quota limit reached (${plan.enforcement.mode}): user=${user.sub}, tier=${tier}, used=${usage}, ` +
+      `requestUnits=${requestUnits}, allowed=${hardLimit}`
+    );
+    return quotaExceededResponse(request, context, quotaInfo, hardLimit);
+  }
+
+  // Reject if this request would take an organization key past its own sub-limit
+  if (requestUnits > 0 && keyUsed !== undefined && quotaInfo.keyLimit !== undefined &&
+      keyUsed + requestUnits > quotaInfo.keyLimit) {
+    context.log.warn(
+      `Key quota limit reached: user=${user.sub}, organization=${quotaInfo.organization}, ` +
+      `keyUsed=${keyUsed}, requestUnits=${requestUnits}, keyLimit=${quotaInfo.keyLimit}`
     );
+    return keyQuotaExceededResponse(request, context, quotaInfo);
+  }
+
+  // Reject if this request's overage would exceed the consumer's spend cap
+  if (requestUnits > 0 && quotaInfo.spendCap !== undefined) {
+    const projectedOverage = Math.max(0, usage + requestUnits - quota);
+    const projectedCost = estimateOverageCost(projectedOverage, overageRate);
+    if (projectedCost > quotaInfo.spendCap) {
+      context.log.warn(
+        `Spend cap reached: user=${user.sub}, tier=${tier}, cap=$${quotaInfo.spendCap.toFixed(2)}, ` +
+        `projectedCost=$${projectedCost.toFixed(2)}`
+      );
+      return spendCapExceededResponse(request, context, quotaInfo, projectedCost);
+    }
   }
 
-  // ALWAYS ALLOW (pay-as-you-go model)
+  // Within limits (soft mode always allows: pay-as-you-go)
   return request;
 }
+
+/**
+ * Inbound policy to enforce quota limits
+ *
+ * This policy:
+ * 1. Retrieves tier and Stripe subscription info from user metadata
+ * 2. Reads current usage from the usage counter (the organization's, for members)
+ * 3. Estimates the units this request will consume
+ * 4. Calculates quota status (limit, used, remaining, overage), plus the key's
+ *    own usage and sub-limit for organization members
+ * 5. Stores quota info in request context for headers
+ * 6. Rejects the request with 402 if the tier enforces a hard limit it would exceed
+ * 7. Rejects the request with 402 if it would exceed the key's sub-limit
+ * 8. Rejects the request with 402 if its overage would exceed the consumer's spend cap
+ * 9. Otherwise allows it (soft mode always allows: pay-as-you-go)
+ * 10. Gracefully handles errors (fail open): if usage or the request's units
+ *     cannot be read, the failure is logged and the request is allowed
+ *     without quotaInfo
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context with env vars and logging
+ * @param policyName - The name of the policy being applied
+ * @returns The original request with quotaInfo attached to user data, or a 402 response
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  // Get user data from authenticated request
+  const user = request.user;
+
+  if (!user) {
+    context.log.warn("Quota enforcement: no authenticated user");
+    return request;
+  }
+
+  try {
+    return await enforceQuota(request, user, context);
+  } catch (error) {
+    context.log.error(`Quota check failed (allowing): user=${user.sub}, error=${error}`);
+    return request;
+  }
+}
@@ -1,22 +1,85 @@
 import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
 import { QuotaInfo } from "./quota-enforcement";
+import { resolveBilledUnits } from "./metering";
+import { estimateOverageCost } from "./plans";
 
 /**
  * Quota Headers - Outbound Policy
  *
  * This policy adds quota information to response headers.
  * Headers added:
- * - X-Quota-Limit: Monthly quota limit
- * - X-Quota-Used: Current month usage
- * - X-Quota-Remaining: Remaining quota
+ * - X-Quota-Limit: Monthly quota limit (units)
+ * - X-Quota-Used: Current month usage (units)
+ * - X-Quota-Remaining: Remaining quota (units)
  * - X-Quota-Overage: Overage amount (0 if under quota)
- * - X-Quota-Overage-Rate: Cost per 1k requests for overage (if applicable)
- * - X-Quota-Reset-Date: Date when quota resets (first of next month)
+ * - X-Quota-Overage-Rate: Cost per 1k units for overage (if applicable)
+ * - X-Quota-Units-Charged: Units this request was billed for
+ * - X-Quota-Units-Credited: Units credited back by this request (only for
+ *   cancellations that earned a credit, see cancellation-credit.ts)
+ * - X-Spend-Cap / X-Spend-Cap-Remaining: Consumer's monthly overage spend cap and
+ *   what is left of it (only if the consumer has set a cap)
+ * - X-Quota-Reset-Date: Date when quota resets (end of the current billing period, UTC)
  * - X-Quota-Tier: User's tier name
+ * - X-Quota-Key-Used: Units used by this API key this period (organization
+ *   members only; the X-Quota-* figures above are the organization's totals)
+ * - X-Quota-Key-Limit / X-Quota-Key-Remaining: The key's own sub-limit and
+ *   what is left of it (only if the key has one, see organizations.ts)
  *
  * This runs AFTER quota-enforcement (inbound) which populates the quotaInfo.
  */
 
+/**
+ * Set quota headers from quota info
+ *
+ * Also used by quota-enforcement for responses it generates itself (402).
+ *
+ * @param headers - Headers to modify
+ * @param quotaInfo - Quota info from quota-enforcement
+ * @param unitsCharged - Units this request was billed for
+ */
+export function setQuotaHeaders(headers: Headers, quotaInfo: QuotaInfo, unitsCharged: number) {
+  // Add quota headers
+  headers.set("X-Quota-Limit", quotaInfo.limit.toString());
+  headers.set("X-Quota-Used", quotaInfo.used.toString());
+  headers.set("X-Quota-Remaining", quotaInfo.remaining.toString());
+  headers.set("X-Quota-Overage", quotaInfo.overage.toString());
+  headers.set("X-Quota-Reset-Date", quotaInfo.resetDate);
+  headers.set("X-Quota-Tier", quotaInfo.tier);
+  headers.set("X-Quota-Units-Charged", unitsCharged.toString());
+  if (quotaInfo.unitsCredited) {
+    headers.set("X-Quota-Units-Credited", quotaInfo.unitsCredited.toString());
+  }
+
+  // Add the key's own figures for organization members
+  if (quotaInfo.keyUsed !== undefined) {
+    headers.set("X-Quota-Key-Used", quotaInfo.keyUsed.toString());
+  }
+  if (quotaInfo.keyLimit !== undefined && quotaInfo.keyRemaining !== undefined) {
+    headers.set("X-Quota-Key-Limit", quotaInfo.keyLimit.toString());
+    headers.set("X-Quota-Key-Remaining", quotaInfo.keyRemaining.toString());
+  }
+
+  // Add overage rate only if in overage or overage is possible
+  if (quotaInfo.overageRate > 0) {
+    headers.set("X-Quota-Overage-Rate", `$${quotaInfo.overageRate.toFixed(2)}/1k`);
+  }
+
+  // Add warning header if in overage
+  if (quotaInfo.isOverage) {
+    const estimatedCost = estimateOverageCost(quotaInfo.overage, quotaInfo.overageRate);
+    headers.set(
+      "X-Quota-Warning",
+      `Quota exceeded. Current overage: ${quotaInfo.overage} units (~$${estimatedCost.toFixed(2)})`
+    );
+  }
+
+  // Add spend cap headers if the consumer has set a cap
+  if (quotaInfo.spendCap !== undefined && quotaInfo.spendCapRemaining !== undefined) {
+    headers.set("X-Spend-Cap", `$${quotaInfo.spendCap.toFixed(2)}`);
+    headers.set("X-Spend-Cap-Remaining", `$${quotaInfo.spendCapRemaining.toFixed(2)}`);
+  }
+}
+
 /**
  * Outbound policy to add quota headers to responses
  *
@@ -46,27 +109,9 @@ export default async function (
   // Create new headers object by cloning existing headers
   const newHeaders = new Headers(response.headers);
 
-  // Add quota headers
-  newHeaders.set("X-Quota-Limit", quotaInfo.limit.toString());
-  newHeaders.set("X-Quota-Used", quotaInfo.used.toString());
-  newHeaders.set("X-Quota-Remaining", quotaInfo.remaining.toString());
-  newHeaders.set("X-Quota-Overage", quotaInfo.overage.toString());
-  newHeaders.set("X-Quota-Reset-Date", quotaInfo.resetDate);
-  newHeaders.set("X-Quota-Tier", quotaInfo.tier);
-
-  // Add overage rate only if in overage or overage is possible
-  if (quotaInfo.overageRate > 0) {
-    newHeaders.set("X-Quota-Overage-Rate", `$${quotaInfo.overageRate.toFixed(2)}/1k`);
-  }
-
-  // Add warning header if in overage
-  if (quotaInfo.isOverage) {
-    const estimatedCost = (quotaInfo.overage / 1000) * quotaInfo.overageRate;
-    newHeaders.set(
-      "X-Quota-Warning",
-      `Quota exceeded. Current overage: ${quotaInfo.overage} requests (~$${estimatedCost.toFixed(2)})`
-    );
-  }
+  // Only successful responses are billed (see billing.ts)
+  const unitsCharged = response.ok ? resolveBilledUnits(response, context, quotaInfo.requestUnits) : 0;
+  setQuotaHeaders(newHeaders, quotaInfo, unitsCharged);
 
   // Log for debugging
   context.log.info(
@@ -1,5 +1,6 @@
 import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
-import { environment } from "@zuplo/runtime";
+import { getPlan, getRequestsPerHour, getRouteId } from "./plans";
+import type { RateLimitInfo } from "./rate-limiting";
 
 /**
  * Outbound policy to add rate limit headers to responses
@@ -8,17 +9,33 @@ import { environment } from "@zuplo/runtime";
  * - RateLimit-Limit: Maximum requests allowed in the time window
  * - RateLimit-Remaining: Requests remaining in current window
  * - RateLimit-Reset: Seconds until the rate limit resets
+ * - RateLimit-Policy: Every window that applies, e.g. "280;w=3600, 5;w=1" (IETF draft)
  *
  * Also includes legacy X-RateLimit-* headers for compatibility
+ *
+ * Values come from the state the rate-limit-state policy recorded for this
+ * request (request.user.data.rateLimitInfo). Burst and hourly 429 responses
+ * carry the same headers (see rate-limiting.ts).
  */
 
-// Rate limit configuration per tier (must match rate-limiting.ts)
-const TIER_LIMITS: Record<string, number> = {
-  free: 100,
-  crawler: 280,
-  spider: 1388,
-  enterprise: 13888,
-};
+/**
+ * Set rate limit headers from rate limit state
+ *
+ * @param headers - Headers to modify
+ * @param info - Rate limit state from the rate-limit policy
+ */
+export function setRateLimitHeaders(headers: Headers, info: RateLimitInfo) {
+  // Add standard RateLimit headers (draft IETF spec)
+  headers.set("RateLimit-Limit", info.limit.toString());
+  headers.set("RateLimit-Remaining", info.remaining.toString());
+  headers.set("RateLimit-Reset", info.resetSeconds.toString());
+  headers.set("RateLimit-Policy", info.policy);
+
+  // Add legacy X-RateLimit headers for compatibility
+  headers.set("X-RateLimit-Limit", info.limit.toString());
+  headers.set("X-RateLimit-Remaining", info.remaining.toString());
+  headers.set("X-RateLimit-Reset", info.resetSeconds.toString());
+}
 
 export default async function (
   response: Response,
@@ -27,60 +44,31 @@ export default async function (
   options: any,
   policyName: string
 ) {
-  // Get user info from request
-  const user = request.user;
-  const tier = (user?.data?.tier as string) || "free";
-  const requestsAllowed = TIER_LIMITS[tier] || TIER_LIMITS.free;
-
-  // Create a unique key for this user
-  const userKey = user?.sub || "anonymous";
+  // Get rate limit state recorded by the rate-limit policy
+  let info = request.user?.data?.rateLimitInfo as RateLimitInfo | undefined;
 
-  // Try to get current usage from ZoneCache
-  // Note: ZoneCache key format should match what rate-limit-inbound policy uses
-  const cacheKey = `rate-limit:${userKey}`;
-
-  let remaining = requestsAllowed;
-  let resetTime = 3600; // Default to 1 hour in seconds
-
-  try {
-    // Try to read from environment cache if available
-    // This is a best-effort approach since we can't directly access rate limit state
-    const cache = await environment.get(cacheKey);
-
-    if (cache) {
-      const data = JSON.parse(cache);
-      remaining = Math.max(0, requestsAllowed - (data.count || 0));
-
-      // Calculate reset time
-      if (data.windowStart) {
-        const windowStart = new Date(data.windowStart).getTime();
-        const now = Date.now();
-        const windowDuration = 60 * 60 * 1000; // 60 minutes in milliseconds
-        const elapsed = now - windowStart;
-        resetTime = Math.max(0, Math.ceil((windowDuration - elapsed) / 1000));
-      }
-    }
-  } catch (error) {
-    // If we can't access cache, use default values
-    context.log.warn(`Could not access rate limit cache: ${error}`);
+  if (!info) {
+    // Route without the rate-limit policies (or no state): advertise the plan limit only
+    const tier = (request.user?.data?.tier as string) || "free";
+    const plan = getPlan(tier);
+    const requestsAllowed = getRequestsPerHour(plan, getRouteId(context));
+    context.log.debug(`No rate limit state recorded, advertising plan limit for tier=${tier}`);
+    info = {
+      limit: requestsAllowed,
+      remaining: requestsAllowed,
+      resetSeconds: 3600,
+      windowSeconds: 3600,
+      policy: `${requestsAllowed};w=3600, ${plan.requestsPerSecond};w=1`,
+    };
   }
 
   // Create new headers object by cloning existing headers
   const newHeaders = new Headers(response.headers);
-
-  // Add standard RateLimit headers (draft IETF spec)
-  newHeaders.set("RateLimit-Limit", requestsAllowed.toString());
-  newHeaders.set("RateLimit-Remaining", remaining.toString());
-  newHeaders.set("RateLimit-Reset", resetTime.toString());
-
-  // Add legacy X-RateLimit headers for compatibility
-  newHeaders.set("X-RateLimit-Limit", requestsAllowed.toString());
-  newHeaders.set("X-RateLimit-Remaining", remaining.toString());
-  newHeaders.set("X-RateLimit-Reset", resetTime.toString());
+  setRateLimitHeaders(newHeaders, info);
 
   // Log for debugging
   context.log.info(
-    `Rate limit headers: tier=${tier}, limit=${requestsAllowed}, remaining=${remaining}, reset=${resetTime}s`
+    `Rate limit headers: limit=${info.limit}, remaining=${info.remaining}, reset=${info.resetSeconds}s`
   );
 
   // Create new response with updated headers
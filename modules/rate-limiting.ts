@@ -1,26 +1,67 @@
 import { ZuploContext, ZuploRequest, CustomRateLimitDetails } from "@zuplo/runtime";
+import { getPlan, getRequestsPerHour, getRouteId } from "./plans";
+import { setRateLimitHeaders } from "./rate-limit-headers";
+import { gatewayProblem, readBuiltInProblem } from "./problems";
+import { getAccountId } from "./organizations";
+import { storeTransaction } from "./durable-store";
 
 /**
- * Tier-based rate limiting for Crawl4AI Platform
+ * Tier-based rate limiting for Crawl4AI Platform - Inbound Policy
  *
- * Rate limits per tier (requests per hour):
- * - free: 100 requests/hour
- * - crawler: 280 requests/hour
- * - spider: 1388 requests/hour
- * - enterprise: 13888 requests/hour
+ * Each consumer is held to two windows, both from the plan catalog in
+ * config/plans.json:
+ * - burst: requestsPerSecond, shared by all routes, enforced by this policy
+ * - hourly: requestsPerHour (with per-route overrides), enforced by the
+ *   built-in rate-limit policy (RateLimitInboundPolicy with rateLimitByTier
+ *   as its identifier function, see config/policies.json)
+ *
+ * Keys of the same organization share both windows (see organizations.ts).
+ *
+ * Concurrent job limits are enforced separately (see concurrency-limit.ts).
+ *
+ * The burst window is counted atomically in the durable store (see
+ * durable-store.ts): requests arriving in the same second each get their own
+ * count, in every zone, so simultaneous requests cannot all slip under it.
+ *
+ * The built-in policy does not expose its count, so this policy (as
+ * rate-limit-state, placed just before rate-limit) also counts the request in
+ * the same hourly window, atomically in the durable store, for the headers
+ * only. It records the result in request.user.data.rateLimitInfo so that
+ * add-rate-limit-headers reports the remaining count and reset time.
+ * The two counts can differ by the requests in flight at a window boundary;
+ * only the built-in one decides whether a request is allowed.
+ *
+ * The built-in policy's 429s are rewritten by rewriteRateLimitRejection
+ * (registered in zuplo.runtime.ts) into the same problem and headers as the
+ * burst 429s this policy returns.
  */
 
-// Rate limit configuration per tier
-const TIER_LIMITS: Record<string, number> = {
-  free: 100,
-  crawler: 280,
-  spider: 1388,
-  enterprise: 13888,
-};
+const BURST_WINDOW_MS = 1000;
+
+/**
+ * Which limit rejected a request (reported as limitType in 429 bodies)
+ */
+export type LimitType = "burst" | "hourly" | "concurrency";
+
+/**
+ * Rate limit state for the current request (the hourly window, or the burst
+ * window when that is what rejected the request)
+ * - policy: IETF RateLimit-Policy value listing every window, e.g. "100;w=3600, 2;w=1"
+ */
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  windowSeconds: number;
+  policy: string;
+}
 
 /**
  * Custom rate limit function that returns rate limit details based on consumer tier
  *
+ * Routes with a per-route override in the plan catalog get their own counter;
+ * all other routes share the consumer's hourly counter.
+ *
  * @param request - The incoming Zuplo request with user authentication data
  * @param context - The Zuplo context
  * @param policyName - The name of the policy being applied
@@ -37,19 +78,234 @@ export function rateLimitByTier(
   // Extract tier from user metadata, default to "free" if not set
   const tier = (user?.data?.tier as string) || "free";
 
-  // Get the request limit for this tier, default to free tier if tier not recognized
-  const requestsAllowed = TIER_LIMITS[tier] || TIER_LIMITS.free;
+  // Get the request limit for this tier and route (unknown tiers use the default plan)
+  const plan = getPlan(tier);
+  const routeId = getRouteId(context);
+  const requestsAllowed = getRequestsPerHour(plan, routeId);
+  const hasRouteOverride = !!routeId && plan.routes[routeId]?.requestsPerHour !== undefined;
 
   // Log for debugging (can be viewed in Zuplo logs)
   context.log.info(`Rate limiting: user=${user?.sub}, tier=${tier}, limit=${requestsAllowed}/hour`);
 
   // Return rate limit configuration
-  // - key: unique identifier per consumer (using sub from authentication)
+  // - key: unique identifier per account (the key's organization, or sub from authentication)
   // - requestsAllowed: requests allowed in the time window
   // - timeWindowMinutes: 60 minutes (1 hour)
+  const consumerKey = getAccountId(user);
   return {
-    key: user?.sub || "anonymous",
+    key: hasRouteOverride ? `${consumerKey}:${routeId}` : consumerKey,
     requestsAllowed: requestsAllowed,
     timeWindowMinutes: 60, // 1 hour window for all tiers
   };
 }
+
+/**
+ * Count a request in the consumer's one-second burst window
+ *
+ * @returns Promise<{ allowed, resetMs }> - Whether the request is within the
+ *   limit, and the time left in the window (ms)
+ */
+async function countBurst(
+  key: string,
+  burstLimit: number,
+  context: ZuploContext
+): Promise<{ allowed: boolean; resetMs: number }> {
+  const counterKey = `burst:${key}`;
+  try {
+    const [count, , ttl] = await storeTransaction([
+      ["INCRBY", counterKey, 1],
+      ["PEXPIRE", counterKey, BURST_WINDOW_MS, "NX"],
+      ["PTTL", counterKey],
+    ]);
+    return { allowed: Number(count) <= burstLimit, resetMs: Math.max(0, Number(ttl)) };
+  } catch (error) {
+    context.log.warn(`Burst counter failed (allowing): ${error}`);
+    return { allowed: true, resetMs: 0 };
+  }
+}
+
+/**
+ * Count a request in the hourly window for the headers
+ *
+ * The window starts with its first request, like the built-in policy's.
+ *
+ * @returns Promise<RateLimitInfo | undefined> - Window state after this
+ *   request, or undefined if the store is unavailable
+ */
+async function countHourlyWindow(
+  key: string,
+  requestsAllowed: number,
+  windowMs: number,
+  policy: string,
+  context: ZuploContext
+): Promise<RateLimitInfo | undefined> {
+  const counterKey = `rate-limit:${key}`;
+  try {
+    const [count, , ttl] = await storeTransaction([
+      ["INCRBY", counterKey, 1],
+      ["PEXPIRE", counterKey, windowMs, "NX"],
+      ["PTTL", counterKey],
+    ]);
+    return {
+      limit: requestsAllowed,
+      remaining: Math.max(0, requestsAllowed - Number(count)),
+      resetSeconds: Math.max(0, Math.ceil(Math.max(0, Number(ttl)) / 1000)),
+      windowSeconds: windowMs / 1000,
+      policy,
+    };
+  } catch (error) {
+    context.log.warn(`Rate limit state unavailable: key=${key}, error=${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Build a 429 response naming the limit that was hit
+ *
+ * Shared with concurrency-limit.ts so every limit rejection has the same shape.
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param limitType - Which limit rejected the request
+ * @param detail - Human-readable explanation
+ * @param extensions - Extra problem members (limit, window, ...)
+ * @param headers - Extra response headers (RateLimit-*, Retry-After)
+ * @returns Promise<Response> - 429 problem response
+ */
+export function limitExceededProblem(
+  request: ZuploRequest,
+  context: ZuploContext,
+  limitType: LimitType,
+  detail: string,
+  extensions: Record<string, unknown>,
+  headers?: Headers
+): Promise<Response> {
+  return gatewayProblem(
+    request,
+    context,
+    limitType === "concurrency" ? "concurrency-limit-exceeded" : "rate-limit-exceeded",
+    detail,
+    { limitType, ...extensions },
+    headers
+  );
+}
+
+/**
+ * Inbound policy enforcing the burst limit and recording hourly rate limit state
+ *
+ * This policy:
+ * 1. Counts the request in the consumer's one-second burst window
+ * 2. Rejects with 429 (including RateLimit and Retry-After headers, and
+ *    limitType "burst") when over the burst limit
+ * 3. Resolves the consumer's hourly limit and counter key (rateLimitByTier)
+ * 4. Counts the request in the hourly window and stores the state on the
+ *    request for add-rate-limit-headers and rewriteRateLimitRejection
+ *
+ * The hourly limit itself is enforced by the built-in rate-limit policy.
+ *
+ * Error handling: Counter failures are logged and the request is allowed (fail open)
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param options - Policy options (unused)
+ * @param policyName - The name of the policy being applied
+ * @returns The request, or a 429 response
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: unknown,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  const burstLimit = getPlan(request.user?.data?.tier as string | undefined).requestsPerSecond;
+  const { key, requestsAllowed = 0, timeWindowMinutes = 60 } = rateLimitByTier(request, context, policyName);
+  const windowMs = timeWindowMinutes * 60 * 1000;
+  const policy = `${requestsAllowed};w=${windowMs / 1000}, ${burstLimit};w=${BURST_WINDOW_MS / 1000}`;
+
+  // Burst window is per account, across all routes
+  const burst = await countBurst(getAccountId(request.user), burstLimit, context);
+
+  if (!burst.allowed) {
+    const burstInfo: RateLimitInfo = {
+      limit: burstLimit,
+      remaining: 0,
+      resetSeconds: Math.max(1, Math.ceil(burst.resetMs / 1000)),
+      windowSeconds: BURST_WINDOW_MS / 1000,
+      policy,
+    };
+    context.log.warn(`Burst limit exceeded: user=${request.user?.sub}, limit=${burstLimit}/second`);
+
+    return limitExceededProblem(
+      request,
+      context,
+      "burst",
+      `Burst limit of ${burstLimit} requests per second exceeded. Slow down and retry in ${burstInfo.resetSeconds} second(s).`,
+      { limit: burstLimit, window: burstInfo.windowSeconds, retryAfter: burstInfo.resetSeconds },
+      rejectionHeaders(burstInfo)
+    );
+  }
+
+  const rateLimitInfo = await countHourlyWindow(key, requestsAllowed, windowMs, policy, context);
+
+  // Store rate limit state for add-rate-limit-headers
+  if (rateLimitInfo && request.user) {
+    if (!request.user.data) {
+      request.user.data = {};
+    }
+    request.user.data.rateLimitInfo = rateLimitInfo;
+  }
+
+  return request;
+}
+
+/**
+ * Rewrite the built-in rate-limit policy's 429s into hourly limit problems
+ *
+ * Registered as a response sending hook in zuplo.runtime.ts, before
+ * normalizeProblemResponse. Adds limitType "hourly" and the RateLimit headers;
+ * Retry-After is the built-in policy's own when it set one.
+ *
+ * @param response - The outgoing response
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @returns Promise<Response> - The response, rewritten if it was a built-in rate limit rejection
+ */
+export async function rewriteRateLimitRejection(
+  response: Response,
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<Response> {
+  const recorded = request.user?.data?.rateLimitInfo as RateLimitInfo | undefined;
+  if (response.status !== 429 || !recorded || !(await readBuiltInProblem(response, context))) {
+    return response;
+  }
+
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  const info: RateLimitInfo = {
+    ...recorded,
+    remaining: 0,
+    resetSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : recorded.resetSeconds,
+  };
+  context.log.warn(
+    `Rate limit exceeded: user=${request.user?.sub}, limit=${info.limit}, reset=${info.resetSeconds}s`
+  );
+
+  return limitExceededProblem(
+    request,
+    context,
+    "hourly",
+    `Rate limit of ${info.limit} requests per hour exceeded. Retry in ${info.resetSeconds} seconds.`,
+    { limit: info.limit, window: info.windowSeconds, retryAfter: info.resetSeconds },
+    rejectionHeaders(info)
+  );
+}
+
+/**
+ * RateLimit and Retry-After headers for a 429 response
+ */
+function rejectionHeaders(info: RateLimitInfo): Headers {
+  const headers = new Headers();
+  setRateLimitHeaders(headers, info);
+  headers.set("Retry-After", info.resetSeconds.toString());
+  return headers;
+}
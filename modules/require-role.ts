@@ -0,0 +1,43 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Require Role - Inbound Policy
+ *
+ * Restricts a route to consumers whose metadata `role` is one of the
+ * configured roles. Must run after api-key-auth.
+ *
+ * Options:
+ * - roles: string[] - Roles allowed to call the route (e.g. ["admin", "finance"])
+ */
+
+interface RequireRoleOptions {
+  roles: string[];
+}
+
+/**
+ * Inbound policy to restrict internal routes by consumer role
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context with logging
+ * @param options - Policy options with the allowed roles
+ * @param policyName - The name of the policy being applied
+ * @returns The request if allowed, or a 403 response
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: RequireRoleOptions,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  const role = request.user?.data?.role as string | undefined;
+
+  if (!role || !options.roles.includes(role)) {
+    context.log.warn(
+      `Access denied by ${policyName}: user=${request.user?.sub}, role=${role}, allowed=${options.roles.join(",")}`
+    );
+    return gatewayProblem(request, context, "forbidden", "This endpoint is restricted to internal operators.");
+  }
+
+  return request;
+}
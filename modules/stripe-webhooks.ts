@@ -0,0 +1,328 @@
+import { ZoneCache, ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import {
+  StripeCustomer,
+  StripeInvoice,
+  getStripeKey,
+  getStripeObject,
+  getStripeWebhookSecret,
+  verifyStripeSignature,
+} from "./stripe";
+import { ConsumerApiError, getConsumer, updateConsumerMetadata } from "./consumers";
+import { getUsageCounterRef, invalidateUsage } from "./usage-counter";
+import { loadPlanCatalog } from "./plans";
+import { BillingProvider, getBillingProvider } from "./billing-provider";
+import { invalidateOrganization } from "./organizations";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Stripe Webhooks - Request Handler
+ *
+ * POST /webhooks/stripe: Keeps consumer metadata in step with Stripe, so plan
+ * changes made in Stripe (checkout, customer portal, dashboard, dunning) apply
+ * at the gateway without manual edits. Not behind api-key-auth; requests are
+ * authenticated by their Stripe-Signature header instead.
+ *
+ * Events handled:
+ * - customer.subscription.*: Reads the subscription's current state from the
+ *   billing provider (see billing-provider.ts) rather than trusting the event
+ *   payload, then sets tier, stripeSubscriptionId, stripeSubscriptionItemId,
+ *   stripeCustomerId, subscriptionStatus and billingCycleAnchor (see
+ *   billing-period.ts) from it. The tier is read from the metered price's
+ *   metadata.tier (or its lookup_key) and must name a tier in
+ *   config/plans.json. A deleted
+ *   subscription, or one that is canceled, unpaid or incomplete_expired,
+ *   moves the consumer back to the catalog's default tier. A tier change within
+ *   a subscription, or a subscription ending, records previousTier and
+ *   tierChangedAt so quota-enforcement can prorate the period's quota; a new
+ *   subscription starts a new period and clears them
+ * - invoice.*: A new invoice means a new billing period or a usage correction
+ * Both mark the consumer's usage counters stale (see usage-counter.ts), so
+ * quota-enforcement reconciles against Stripe on the next request.
+ *
+ * The consumer is found from metadata.consumer on the subscription (or the
+ * invoice's subscription_details), falling back to the Stripe customer's
+ * metadata.consumer. Events for unknown consumers are acknowledged and logged.
+ *
+ * Stripe delivers at least once and in no particular order: event IDs are
+ * remembered for EVENT_TTL_SECONDS to skip repeats, and subscription events
+ * older than the last one applied (stripeEventAt) are ignored. Processing
+ * failures return 500 so Stripe retries the event.
+ *
+ * api-key-auth caches consumer metadata, so changes reach requests within
+ * about a minute. For organizations (see organizations.ts), link the
+ * subscription to the organization's consumer; its keys pick up changes on
+ * their next request.
+ *
+ * Requirements:
+ * - Environment variables: STRIPE_WEBHOOK_SECRET_TEST, STRIPE_WEBHOOK_SECRET_LIVE,
+ *   STRIPE_MODE, plus the Stripe and Zuplo Developer API keys (see stripe.ts
+ *   and consumers.ts)
+ */
+
+const STRIPE_EVENT_CACHE_NAME = "stripe-events";
+
+// Stripe retries failed deliveries for up to 3 days
+const EVENT_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+// Subscription statuses after which the consumer no longer has a paid plan
+const ENDED_STATUSES = new Set(["canceled", "unpaid", "incomplete_expired"]);
+
+/**
+ * The parts of a Stripe event this handler reads
+ */
+interface StripeEvent {
+  id: string;
+  type: string;
+  created: number; // Unix seconds
+  data: { object: { id: string } }; // StripeSubscription or StripeInvoice, by type
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Get an ID from a Stripe field that may be an ID or an expanded object
+ */
+function stripeId(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+  return typeof (value as { id?: unknown })?.id === "string" ? (value as { id: string }).id : undefined;
+}
+
+/**
+ * Find the consumer a Stripe object belongs to
+ *
+ * @param consumer - The object's own metadata.consumer, if set
+ * @param customerId - Stripe customer, whose metadata.consumer is the fallback
+ * @returns Promise<string | undefined> - Consumer name, or undefined if not linked
+ * @throws Error - If the Stripe customer could not be retrieved (retryable)
+ */
+async function resolveConsumer(
+  consumer: string | undefined,
+  customerId: string | undefined,
+  context: ZuploContext
+): Promise<string | undefined> {
+  if (consumer) {
+    return consumer;
+  }
+  if (!customerId) {
+    return undefined;
+  }
+
+  const stripeKey = getStripeKey(context);
+  const customer = stripeKey && (await getStripeObject<StripeCustomer>(`customers/${customerId}`, stripeKey, context));
+  if (!customer) {
+    throw new Error(`Stripe customer ${customerId} could not be retrieved`);
+  }
+  return customer.deleted ? undefined : customer.metadata?.consumer;
+}
+
+/**
+ * Get a consumer's metadata, or undefined if the consumer does not exist
+ */
+async function readConsumerMetadata(consumer: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    return (await getConsumer(consumer)).metadata ?? {};
+  } catch (error) {
+    if (error instanceof ConsumerApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Work out the proration fields for a consumer's tier changing (or not)
+ *
+ * @returns Record<string, unknown> - previousTier and tierChangedAt changes
+ */
+function tierChangeFields(
+  metadata: Record<string, unknown>,
+  tier: string | undefined,
+  newSubscription: boolean,
+  event: StripeEvent
+): Record<string, unknown> {
+  if (newSubscription) {
+    return { previousTier: undefined, tierChangedAt: undefined };
+  }
+  const currentTier = (metadata.tier as string | undefined) || loadPlanCatalog().defaultTier;
+  if (!tier || tier === currentTier) {
+    return {};
+  }
+  return { previousTier: currentTier, tierChangedAt: event.created };
+}
+
+/**
+ * Apply a customer.subscription.* event to the consumer's metadata
+ */
+async function applySubscriptionEvent(
+  event: StripeEvent,
+  provider: BillingProvider,
+  context: ZuploContext
+): Promise<void> {
+  const subscriptionId = event.data.object.id;
+  const subscription = await provider.getSubscription(subscriptionId, context);
+  if (!subscription) {
+    throw new Error(`Subscription ${subscriptionId} could not be retrieved`);
+  }
+  const customerId = subscription.customerId;
+  const consumer = await resolveConsumer(subscription.consumer, customerId, context);
+  const metadata = consumer ? await readConsumerMetadata(consumer) : undefined;
+  if (!consumer || !metadata) {
+    context.log.warn(
+      `Stripe event for unknown consumer: event=${event.id}, type=${event.type}, subscription=${subscription.id}, consumer=${consumer}`
+    );
+    return;
+  }
+
+  const lastEventAt = metadata.stripeEventAt;
+  if (typeof lastEventAt === "number" && event.created < lastEventAt) {
+    context.log.info(`Stale Stripe event ignored: event=${event.id}, type=${event.type}, consumer=${consumer}`);
+    return;
+  }
+
+  const ended = event.type === "customer.subscription.deleted" || ENDED_STATUSES.has(subscription.status);
+  let changes: Record<string, unknown>;
+
+  if (ended) {
+    // Ending a subscription the consumer has already replaced changes nothing
+    if (metadata.stripeSubscriptionId && metadata.stripeSubscriptionId !== subscription.id) {
+      context.log.info(
+        `Ended Stripe subscription is not the consumer's current one: consumer=${consumer}, subscription=${subscription.id}`
+      );
+      return;
+    }
+    const tier = loadPlanCatalog().defaultTier;
+    changes = {
+      tier,
+      ...tierChangeFields(metadata, tier, false, event),
+      stripeSubscriptionId: undefined,
+      stripeSubscriptionItemId: undefined,
+      stripeCustomerId: customerId,
+      subscriptionStatus: subscription.status,
+      billingCycleAnchor: undefined,
+      stripeEventAt: event.created,
+    };
+  } else {
+    if (!subscription.subscriptionItemId) {
+      context.log.error(
+        `Stripe subscription has no metered price: consumer=${consumer}, subscription=${subscription.id}`
+      );
+      return;
+    }
+
+    const tier = subscription.tier;
+    if (!tier) {
+      // Keep the current tier rather than guessing; the subscription is still linked
+      context.log.error(
+        `Stripe subscription's metered price does not name a known tier: consumer=${consumer}, ` +
+          `subscription=${subscription.id}`
+      );
+    }
+    changes = {
+      ...(tier ? { tier } : {}),
+      ...tierChangeFields(metadata, tier, metadata.stripeSubscriptionId !== subscription.id, event),
+      stripeSubscriptionId: subscription.id,
+      stripeSubscriptionItemId: subscription.subscriptionItemId,
+      stripeCustomerId: customerId,
+      subscriptionStatus: subscription.status,
+      billingCycleAnchor: subscription.billingCycleAnchor,
+      stripeEventAt: event.created,
+    };
+  }
+
+  await updateConsumerMetadata(consumer, changes, context);
+  // The consumer may be an organization whose metadata its keys cache
+  await invalidateOrganization(consumer, context);
+  // Counters are per subscription item and period: mark the old and new ones stale
+  await invalidateUsage(getUsageCounterRef(consumer, metadata), context);
+  await invalidateUsage(getUsageCounterRef(consumer, { ...metadata, ...changes }), context);
+
+  context.log.info(
+    `Stripe subscription applied: consumer=${consumer}, event=${event.type}, subscription=${subscription.id}, ` +
+      `status=${subscription.status}, tier=${changes.tier ?? metadata.tier}`
+  );
+}
+
+/**
+ * Apply an invoice.* event: the consumer's usage is re-read from Stripe
+ */
+async function applyInvoiceEvent(event: StripeEvent, context: ZuploContext): Promise<void> {
+  const invoice = event.data.object as StripeInvoice;
+  const subscriptionDetails = invoice.subscription_details ?? invoice.parent?.subscription_details;
+  const consumer = await resolveConsumer(
+    subscriptionDetails?.metadata?.consumer,
+    stripeId(invoice.customer),
+    context
+  );
+  const metadata = consumer ? await readConsumerMetadata(consumer) : undefined;
+  if (!consumer || !metadata) {
+    context.log.warn(
+      `Stripe event for unknown consumer: event=${event.id}, type=${event.type}, invoice=${invoice.id}, consumer=${consumer}`
+    );
+    return;
+  }
+
+  await invalidateUsage(getUsageCounterRef(consumer, metadata), context);
+  context.log.info(`Stripe invoice event applied: consumer=${consumer}, event=${event.type}, invoice=${invoice.id}`);
+}
+
+/**
+ * Receive a Stripe webhook event
+ */
+export async function handleStripeWebhook(request: ZuploRequest, context: ZuploContext) {
+  const secret = getStripeWebhookSecret(context);
+  const provider = getBillingProvider(context);
+  if (!secret || !provider) {
+    return gatewayProblem(request, context, "service-unavailable", "Stripe webhooks are not configured.");
+  }
+
+  // The signature covers the exact bytes Stripe sent, so read the raw body
+  const payload = await request.text();
+  if (!(await verifyStripeSignature(payload, request.headers.get("stripe-signature"), secret))) {
+    context.log.warn("Stripe webhook rejected: missing, invalid or expired Stripe-Signature");
+    return gatewayProblem(request, context, "bad-request", "Invalid Stripe-Signature header.");
+  }
+
+  let event: StripeEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return gatewayProblem(request, context, "bad-request", "Body must be a JSON Stripe event");
+  }
+  if (typeof event?.id !== "string" || typeof event.type !== "string" || !event.data?.object) {
+    return gatewayProblem(request, context, "bad-request", "Body must be a JSON Stripe event");
+  }
+
+  const cache = new ZoneCache<number>(STRIPE_EVENT_CACHE_NAME, context);
+  if (await cache.get(`event:${event.id}`)) {
+    context.log.debug(`Duplicate Stripe event skipped: event=${event.id}, type=${event.type}`);
+    return jsonResponse({ received: true });
+  }
+
+  try {
+    if (event.type.startsWith("customer.subscription.")) {
+      await applySubscriptionEvent(event, provider, context);
+    } else if (event.type.startsWith("invoice.")) {
+      await applyInvoiceEvent(event, context);
+    } else {
+      context.log.debug(`Stripe event type not handled: event=${event.id}, type=${event.type}`);
+    }
+  } catch (error) {
+    context.log.error(`Stripe event processing failed: event=${event.id}, type=${event.type}, error=${error}`);
+    return gatewayProblem(
+      request,
+      context,
+      "internal-error",
+      "The Stripe event could not be processed. Stripe will retry it."
+    );
+  }
+
+  await cache.put(`event:${event.id}`, Date.now(), EVENT_TTL_SECONDS);
+  return jsonResponse({ received: true });
+}
@@ -0,0 +1,400 @@
+import { ZuploContext, environment } from "@zuplo/runtime";
+import { verifyHmacHex } from "./webhook-signature";
+
+/**
+ * Stripe API helpers shared by the billing and quota policies
+ *
+ * Requirements:
+ * - Environment variables: STRIPE_SECRET_KEY_TEST, STRIPE_SECRET_KEY_LIVE, STRIPE_MODE
+ * - STRIPE_METER_EVENT_NAME, STRIPE_METER_ID_TEST, STRIPE_METER_ID_LIVE: The
+ *   Billing Meter usage is reported to (meter events and event summaries)
+ * - STRIPE_WEBHOOK_SECRET_TEST, STRIPE_WEBHOOK_SECRET_LIVE: Webhook endpoint
+ *   signing secrets (only needed by POST /webhooks/stripe)
+ */
+
+// Age after which a signed Stripe webhook is rejected (Stripe's own default)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Result of a Stripe meter event call
+ * - retryable: true for network errors, 429 and 5xx (safe to retry with the same identifier)
+ */
+export interface StripeUsageResult {
+  ok: boolean;
+  retryable: boolean;
+  error?: string;
+}
+
+/**
+ * Stripe Billing Meter that usage is reported to
+ * - eventName: Event name the meter aggregates (STRIPE_METER_EVENT_NAME)
+ * - meterId: Meter ID, for usage summaries (STRIPE_METER_ID_TEST / STRIPE_METER_ID_LIVE)
+ */
+export interface StripeMeterConfig {
+  eventName: string;
+  meterId: string;
+}
+
+/**
+ * The parts of Stripe API objects the gateway reads. Expandable fields are
+ * either an ID or the expanded object
+ */
+export interface StripeCustomer {
+  id: string;
+  deleted?: boolean;
+  metadata?: Record<string, string>;
+}
+
+export interface StripePrice {
+  id: string;
+  lookup_key?: string | null;
+  metadata?: Record<string, string>;
+  recurring?: { usage_type?: string } | null;
+}
+
+export interface StripeSubscriptionItem {
+  id: string;
+  subscription?: string;
+  price?: StripePrice;
+}
+
+export interface StripeSubscription {
+  id: string;
+  customer: string | { id: string };
+  status: string;
+  billing_cycle_anchor: number; // Unix seconds
+  metadata?: Record<string, string>;
+  items?: { data: StripeSubscriptionItem[] };
+}
+
+export interface StripeInvoice {
+  id: string;
+  customer?: string | { id: string } | null;
+  subscription_details?: { metadata?: Record<string, string> } | null;
+  parent?: { subscription_details?: { metadata?: Record<string, string> } | null } | null;
+}
+
+/**
+ * Get the Stripe API key for the configured mode
+ *
+ * @param context - Zuplo context for logging
+ * @returns string | undefined - The secret key, or undefined if not configured (logged)
+ */
+export function getStripeKey(context: ZuploContext): string | undefined {
+  const stripeMode = environment.STRIPE_MODE || "test";
+  const stripeKey = stripeMode === "live"
+    ? environment.STRIPE_SECRET_KEY_LIVE
+    : environment.STRIPE_SECRET_KEY_TEST;
+
+  if (!stripeKey) {
+    context.log.error(
+      `Stripe key not configured: mode=${stripeMode}, missing STRIPE_SECRET_KEY_${stripeMode.toUpperCase()}`
+    );
+  }
+
+  return stripeKey;
+}
+
+/**
+ * Get the Stripe Billing Meter usage is reported to, for the configured mode
+ *
+ * @param context - Zuplo context for logging
+ * @returns StripeMeterConfig | undefined - Event name and meter ID, or
+ *   undefined if not configured (logged)
+ */
+export function getStripeMeterConfig(context: ZuploContext): StripeMeterConfig | undefined {
+  const stripeMode = environment.STRIPE_MODE || "test";
+  const eventName = environment.STRIPE_METER_EVENT_NAME;
+  const meterId = stripeMode === "live"
+    ? environment.STRIPE_METER_ID_LIVE
+    : environment.STRIPE_METER_ID_TEST;
+
+  if (!eventName || !meterId) {
+    context.log.error(
+      `Stripe meter not configured: mode=${stripeMode}, need STRIPE_METER_EVENT_NAME and ` +
+      `STRIPE_METER_ID_${stripeMode.toUpperCase()}`
+    );
+    return undefined;
+  }
+
+  return { eventName, meterId };
+}
+
+/**
+ * Send a meter event to Stripe
+ *
+ * Stripe deduplicates meter events by identifier, and the Idempotency-Key
+ * derived from it returns the original result for a retried request, so
+ * resending an event never records the usage twice (both are remembered for
+ * at least 24h).
+ *
+ * @param eventName - Meter event name (STRIPE_METER_EVENT_NAME)
+ * @param customerId - Stripe customer ID the usage belongs to
+ * @param value - Usage quantity (metered units)
+ * @param identifier - Unique identifier for this usage
+ * @param timestamp - Unix timestamp (seconds) the usage occurred at
+ * @param stripeKey - Stripe API secret key
+ * @param context - Zuplo context for logging
+ * @returns Promise<StripeUsageResult> - Outcome, including whether a retry may succeed
+ */
+export async function sendStripeMeterEvent(
+  eventName: string,
+  customerId: string,
+  value: number,
+  identifier: string,
+  timestamp: number,
+  stripeKey: string,
+  context: ZuploContext
+): Promise<StripeUsageResult> {
+  try {
+    const response = await fetch("https://api.stripe.com/v1/billing/meter_events", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${stripeKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Idempotency-Key": `meter-${identifier}`,
+      },
+      body: new URLSearchParams({
+        event_name: eventName,
+        "payload[stripe_customer_id]": customerId,
+        "payload[value]": String(value),
+        identifier,
+        timestamp: String(timestamp),
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      context.log.error(
+        `Stripe meter event failed: status=${response.status}, identifier=${identifier}, error=${errorText}`
+      );
+      return {
+        ok: false,
+        retryable: response.status === 429 || response.status >= 500,
+        error: `status=${response.status}: ${errorText}`,
+      };
+    }
+
+    context.log.debug(
+      `Stripe meter event created: customer=${customerId}, value=${value}, timestamp=${timestamp}, ` +
+      `identifier=${identifier}`
+    );
+    return { ok: true, retryable: false };
+  } catch (error) {
+    context.log.error(`Stripe API request failed: ${error}`);
+    return { ok: false, retryable: true, error: `${error}` };
+  }
+}
+
+/**
+ * Credit an amount to a customer's balance, which Stripe applies to their next invoice
+ *
+ * The Idempotency-Key derived from the identifier makes a retried request
+ * return the original result instead of crediting the customer again.
+ *
+ * @param customerId - Stripe customer ID
+ * @param amount - Amount to credit, in cents
+ * @param identifier - Unique identifier for this credit
+ * @param description - Shown on the customer's balance history
+ * @param stripeKey - Stripe API secret key
+ * @param context - Zuplo context for logging
+ * @returns Promise<StripeUsageResult> - Outcome, including whether a retry may succeed
+ */
+export async function createStripeBalanceCredit(
+  customerId: string,
+  amount: number,
+  identifier: string,
+  description: string,
+  stripeKey: string,
+  context: ZuploContext
+): Promise<StripeUsageResult> {
+  try {
+    const response = await fetch(
+      `https://api.stripe.com/v1/customers/${encodeURIComponent(customerId)}/balance_transactions`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${stripeKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Idempotency-Key": `credit-${identifier}`,
+        },
+        body: new URLSearchParams({
+          // A negative amount is a credit
+          amount: String(-amount),
+          currency: "usd",
+          description,
+          "metadata[identifier]": identifier,
+        }).toString(),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      context.log.error(
+        `Stripe balance credit failed: status=${response.status}, identifier=${identifier}, error=${errorText}`
+      );
+      return {
+        ok: false,
+        retryable: response.status === 429 || response.status >= 500,
+        error: `status=${response.status}: ${errorText}`,
+      };
+    }
+
+    context.log.info(
+      `Stripe balance credit created: customer=${customerId}, amount=${amount}, identifier=${identifier}`
+    );
+    return { ok: true, retryable: false };
+  } catch (error) {
+    context.log.error(`Stripe API request failed: ${error}`);
+    return { ok: false, retryable: true, error: `${error}` };
+  }
+}
+
+/**
+ * Get a customer's usage over a time range from Stripe's meter event summaries
+ *
+ * Stripe aggregates meter events asynchronously, so the total can trail the
+ * most recent events by a few minutes.
+ *
+ * @param meterId - Stripe meter ID
+ * @param customerId - Stripe customer ID
+ * @param startTime - Unix seconds, inclusive (rounded down to the minute)
+ * @param endTime - Unix seconds, exclusive (rounded up to the minute)
+ * @param stripeKey - Stripe API secret key
+ * @param context - Zuplo context for logging
+ * @returns Promise<number | undefined> - Total units in the range,
+ *   or undefined if Stripe could not be queried
+ */
+export async function getStripeMeterUsage(
+  meterId: string,
+  customerId: string,
+  startTime: number,
+  endTime: number,
+  stripeKey: string,
+  context: ZuploContext
+): Promise<number | undefined> {
+  // Summary ranges must fall on minute boundaries
+  const query = new URLSearchParams({
+    customer: customerId,
+    start_time: String(Math.floor(startTime / 60) * 60),
+    end_time: String(Math.ceil(endTime / 60) * 60),
+  });
+
+  try {
+    const response = await fetch(
+      `https://api.stripe.com/v1/billing/meters/${meterId}/event_summaries?${query}`,
+      {
+        headers: {
+          Authorization: `Bearer ${stripeKey}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      context.log.warn(
+        `Stripe meter usage query failed: status=${response.status}, error=${errorText}`
+      );
+      return undefined;
+    }
+
+    const data = await response.json();
+    const usage = (data.data ?? []).reduce(
+      (sum: number, summary: { aggregated_value?: number }) => sum + (summary.aggregated_value || 0),
+      0
+    );
+    context.log.info(`Stripe meter usage: customer=${customerId}, usage=${usage}`);
+    return usage;
+  } catch (error) {
+    context.log.error(`Stripe meter usage query exception: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get the Stripe webhook signing secret for the configured mode
+ *
+ * @param context - Zuplo context for logging
+ * @returns string | undefined - The secret, or undefined if not configured (logged)
+ */
+export function getStripeWebhookSecret(context: ZuploContext): string | undefined {
+  const stripeMode = environment.STRIPE_MODE || "test";
+  const secret = stripeMode === "live"
+    ? environment.STRIPE_WEBHOOK_SECRET_LIVE
+    : environment.STRIPE_WEBHOOK_SECRET_TEST;
+
+  if (!secret) {
+    context.log.error(
+      `Stripe webhook secret not configured: mode=${stripeMode}, missing STRIPE_WEBHOOK_SECRET_${stripeMode.toUpperCase()}`
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Verify the Stripe-Signature header of a webhook
+ *
+ * Stripe signs "<t>.<raw body>" with HMAC-SHA256 and may send several v1
+ * signatures (during secret rotation); any one of them matching is enough.
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param header - Stripe-Signature header value
+ * @param secret - Webhook endpoint signing secret (whsec_...)
+ * @returns Promise<boolean> - True if the payload is authentic and recent
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string
+): Promise<boolean> {
+  const parts = (header ?? "").split(",").map((part) => part.trim().split("=", 2));
+  const timestamp = parts.find(([name]) => name === "t")?.[1];
+  const signatures = parts.filter(([name, value]) => name === "v1" && value).map(([, value]) => value);
+
+  if (!timestamp || !/^\d+$/.test(timestamp) || signatures.length === 0) {
+    return false;
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  for (const signature of signatures) {
+    if (await verifyHmacHex(secret, `${timestamp}.${payload}`, signature)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Retrieve a Stripe object (e.g. customers/cus_123, subscriptions/sub_123)
+ *
+ * @param path - Object path below /v1/
+ * @param stripeKey - Stripe API secret key
+ * @param context - Zuplo context for logging
+ * @returns Promise<T | undefined> - The object, or undefined if Stripe could
+ *   not be queried (logged)
+ */
+export async function getStripeObject<T>(
+  path: string,
+  stripeKey: string,
+  context: ZuploContext
+): Promise<T | undefined> {
+  try {
+    const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+      headers: {
+        Authorization: `Bearer ${stripeKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      context.log.warn(`Stripe object query failed: path=${path}, status=${response.status}`);
+      return undefined;
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    context.log.error(`Stripe object query exception: path=${path}, error=${error}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,163 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import {
+  ConsumerUrlPolicy,
+  UrlPolicyError,
+  UrlViolationReason,
+  checkTargetUrl,
+  createHostnameLookups,
+  getConsumerUrlPolicy,
+} from "./url-policy";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Target URL Check - Inbound Policy
+ *
+ * Rejects crawl submissions whose urls the gateway must not fetch (see
+ * url-policy.ts): private, loopback and link-local targets, disallowed schemes
+ * and ports, and domains outside the global or consumer allow/deny lists.
+ *
+ * A webhook_url is held to the global policy too (the gateway itself calls it,
+ * see webhooks.ts), but not to the consumer's crawl domain lists. Once it
+ * passes, it is stored in context.custom.webhookUrl for job-tracking to register.
+ * The number of submitted URLs is stored in context.custom.urlCount (job-tracking
+ * records it, so a cancellation can credit the URLs that were never processed).
+ *
+ * Hostnames are looked up once per submission, with a cap on lookups in flight
+ * (see url-policy.ts). If a lookup fails, the URL cannot be checked, so the
+ * whole submission is refused with 503 (retryable) instead of being let through.
+ *
+ * Runs before quota-enforcement so rejected submissions are never charged.
+ * Bodies without a urls array are left to the backend.
+ *
+ * Consumer metadata (optional): allowedDomains, deniedDomains. If either is
+ * not an array of domains, submissions are refused with 500 (the account
+ * needs fixing) rather than checked against a list that cannot be read.
+ */
+
+/**
+ * One rejected URL in the error report (FieldError in config/routes.oas.json)
+ * - index: Position in the submitted urls array (absent for webhook_url)
+ */
+interface UrlError {
+  location: "body";
+  field: string;
+  code: UrlViolationReason;
+  index?: number;
+  url: unknown;
+  message: string;
+}
+
+/**
+ * Inbound policy to check crawl target URLs
+ *
+ * @param request - The incoming Zuplo request
+ * @param context - The Zuplo context
+ * @param options - Policy options (unused)
+ * @param policyName - The name of the policy being applied
+ * @returns The request, a 422 response listing every rejected URL, a 503
+ *   response if a hostname could not be looked up, or a 500 response if the
+ *   consumer's domain lists are invalid
+ */
+export default async function (
+  request: ZuploRequest,
+  context: ZuploContext,
+  options: unknown,
+  policyName: string
+): Promise<ZuploRequest | Response> {
+  let body: { urls?: unknown; webhook_url?: unknown } | undefined;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return request;
+  }
+  const urls = body?.urls;
+  if (!Array.isArray(urls)) {
+    return request;
+  }
+  const webhookUrl = body?.webhook_url;
+
+  let consumerPolicy: ConsumerUrlPolicy;
+  try {
+    consumerPolicy = getConsumerUrlPolicy(request.user?.data);
+  } catch (error) {
+    if (!(error instanceof UrlPolicyError)) {
+      throw error;
+    }
+    context.log.error(`Consumer URL policy invalid: user=${request.user?.sub}, issues=${error.issues.join("; ")}`);
+    return gatewayProblem(
+      request,
+      context,
+      "internal-error",
+      "Your account's domain settings are invalid, so target URLs cannot be checked. Please contact support."
+    );
+  }
+
+  const lookups = createHostnameLookups(context);
+  const [violations, webhookViolation] = await Promise.all([
+    Promise.all(urls.map((url) => checkTargetUrl(url, consumerPolicy, context, lookups))),
+    webhookUrl === undefined ? undefined : checkTargetUrl(webhookUrl, {}, context, lookups),
+  ]);
+
+  const unchecked = [...violations, webhookViolation].filter(
+    (violation) => violation?.reason === "dns_lookup_failed"
+  );
+  if (unchecked.length > 0) {
+    context.log.warn(
+      `Target URLs not checked (DNS lookup failed): user=${request.user?.sub}, urls=${unchecked.length}`
+    );
+    return gatewayProblem(
+      request,
+      context,
+      "service-unavailable",
+      "The target URLs could not be checked because a DNS lookup failed. Please retry shortly."
+    );
+  }
+
+  const errors: UrlError[] = [];
+  violations.forEach((violation, index) => {
+    if (violation) {
+      errors.push({
+        location: "body",
+        field: `urls[${index}]`,
+        code: violation.reason,
+        index,
+        url: urls[index],
+        message: violation.message,
+      });
+    }
+  });
+
+  if (webhookViolation) {
+    errors.push({
+      location: "body",
+      field: "webhook_url",
+      code: webhookViolation.reason,
+      url: webhookUrl,
+      message: webhookViolation.message,
+    });
+  }
+
+  if (errors.length === 0) {
+    context.custom.urlCount = urls.length;
+    if (typeof webhookUrl === "string") {
+      context.custom.webhookUrl = webhookUrl;
+    }
+    return request;
+  }
+
+  context.log.warn(
+    `Target URLs rejected: user=${request.user?.sub}, rejected=${errors.length}/${urls.length}, ` +
+      `webhookRejected=${!!webhookViolation}, reasons=${[...new Set(errors.map((error) => error.code))].join(",")}`
+  );
+
+  const rejectedUrls = errors.length - (webhookViolation ? 1 : 0);
+  return gatewayProblem(
+    request,
+    context,
+    "disallowed-target-url",
+    rejectedUrls > 0
+      ? `${rejectedUrls} of ${urls.length} URLs cannot be crawled. Remove or fix them and resubmit.`
+      : "The webhook_url cannot be called by the gateway. Use a public http(s) URL and resubmit.",
+    { errors }
+  );
+}
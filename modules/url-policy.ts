@@ -0,0 +1,496 @@
+import { ZuploContext } from "@zuplo/runtime";
+import urlPolicyConfig from "../config/url-policy.json";
+
+/**
+ * Target URL Policy
+ *
+ * Decides whether the gateway lets a consumer point our crawlers (or, later,
+ * webhooks) at a URL. Protects internal infrastructure from SSRF: cloud
+ * metadata endpoints, loopback, private networks and non-HTTP schemes.
+ *
+ * Loaded from config/url-policy.json and validated once at startup (see
+ * zuplo.runtime.ts):
+ * - allowedSchemes: URL schemes that may be crawled
+ * - allowedPorts: Ports that may be crawled (empty = any); default ports count
+ * - allowedDomains: If non-empty, only these domains may be crawled
+ * - deniedDomains: Domains that may never be crawled
+ * - dnsResolution: Resolve hostnames (DNS over HTTPS) and reject those that
+ *   point at private addresses. Each hostname is looked up once per request,
+ *   with at most maxConcurrentLookups lookups in flight (see
+ *   createHostnameLookups). A failed lookup (timeout, HTTP error, or any DNS
+ *   status but NOERROR and NXDOMAIN) rejects the URL (dns_lookup_failed)
+ *   rather than letting an unchecked host through, and a name without
+ *   addresses is rejected as unresolvable_host. The backend must still refuse
+ *   private addresses when it connects (DNS rebinding)
+ *
+ * Domain entries match the domain itself and all of its subdomains
+ * ("example.com" matches "docs.example.com"). Denials win over allowances.
+ *
+ * Consumers can narrow the policy further through their metadata
+ * (allowedDomains, deniedDomains, see getConsumerUrlPolicy); they can never
+ * widen it.
+ */
+
+/**
+ * Why a URL was rejected
+ */
+export type UrlViolationReason =
+  | "invalid_url"
+  | "scheme_not_allowed"
+  | "credentials_not_allowed"
+  | "port_not_allowed"
+  | "private_address"
+  | "domain_denied"
+  | "domain_not_allowed"
+  | "unresolvable_host"
+  | "dns_lookup_failed";
+
+/**
+ * A rejected URL
+ */
+export interface UrlViolation {
+  reason: UrlViolationReason;
+  message: string;
+}
+
+/**
+ * Per-consumer domain lists (from consumer metadata)
+ */
+export interface ConsumerUrlPolicy {
+  allowedDomains?: string[];
+  deniedDomains?: string[];
+}
+
+/**
+ * DNS over HTTPS settings
+ */
+export interface DnsResolutionConfig {
+  enabled: boolean;
+  dohUrl: string;
+  timeoutMs: number;
+  maxConcurrentLookups: number;
+}
+
+/**
+ * Resolves hostnames for the URL checks of one request (see createHostnameLookups)
+ * - string[]: The hostname's addresses
+ * - null: The hostname does not exist or has no addresses
+ * - undefined: The lookup failed
+ */
+export type HostnameLookups = (hostname: string) => Promise<string[] | null | undefined>;
+
+/**
+ * Validated URL policy
+ */
+export interface UrlPolicyConfig {
+  allowedSchemes: string[];
+  allowedPorts: number[];
+  allowedDomains: string[];
+  deniedDomains: string[];
+  dnsResolution: DnsResolutionConfig;
+}
+
+/**
+ * Thrown when config/url-policy.json does not describe a valid policy
+ */
+export class UrlPolicyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid URL policy:\n- ${issues.join("\n- ")}`);
+    this.name = "UrlPolicyError";
+  }
+}
+
+// Reserved IPv4 ranges that must never be crawled: [network, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local (cloud metadata)
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+];
+
+let policy: UrlPolicyConfig | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.length > 0);
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, "").replace(/\.$/, "");
+}
+
+/**
+ * Validate a raw URL policy object
+ *
+ * @param raw - Parsed contents of config/url-policy.json
+ * @returns UrlPolicyConfig - The validated policy
+ * @throws UrlPolicyError - If the policy is invalid
+ */
+export function validateUrlPolicy(raw: unknown): UrlPolicyConfig {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new UrlPolicyError(["URL policy must be an object"]);
+  }
+
+  if (!isStringArray(raw.allowedSchemes) || raw.allowedSchemes.length === 0) {
+    issues.push("allowedSchemes must be a non-empty array of strings");
+  }
+  if (
+    !Array.isArray(raw.allowedPorts) ||
+    !raw.allowedPorts.every((port) => Number.isInteger(port) && port > 0 && port <= 65535)
+  ) {
+    issues.push("allowedPorts must be an array of port numbers");
+  }
+  for (const field of ["allowedDomains", "deniedDomains"]) {
+    if (raw[field] !== undefined && !isStringArray(raw[field])) {
+      issues.push(`${field} must be an array of domains`);
+    }
+  }
+
+  const dns = isRecord(raw.dnsResolution) ? raw.dnsResolution : { enabled: false };
+  if (raw.dnsResolution !== undefined && !isRecord(raw.dnsResolution)) {
+    issues.push("dnsResolution must be an object");
+  } else if (dns.enabled === true) {
+    if (typeof dns.dohUrl !== "string" || !URL.canParse(dns.dohUrl)) {
+      issues.push("dnsResolution.dohUrl must be an absolute URL");
+    }
+    if (typeof dns.timeoutMs !== "number" || !Number.isInteger(dns.timeoutMs) || dns.timeoutMs <= 0) {
+      issues.push("dnsResolution.timeoutMs must be a positive integer");
+    }
+    if (
+      typeof dns.maxConcurrentLookups !== "number" ||
+      !Number.isInteger(dns.maxConcurrentLookups) ||
+      dns.maxConcurrentLookups <= 0
+    ) {
+      issues.push("dnsResolution.maxConcurrentLookups must be a positive integer");
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new UrlPolicyError(issues);
+  }
+
+  return {
+    allowedSchemes: (raw.allowedSchemes as string[]).map((scheme) => scheme.toLowerCase()),
+    allowedPorts: raw.allowedPorts as number[],
+    allowedDomains: ((raw.allowedDomains as string[] | undefined) ?? []).map(normalizeDomain),
+    deniedDomains: ((raw.deniedDomains as string[] | undefined) ?? []).map(normalizeDomain),
+    dnsResolution: {
+      enabled: dns.enabled === true,
+      dohUrl: dns.dohUrl as string,
+      timeoutMs: dns.timeoutMs as number,
+      maxConcurrentLookups: dns.maxConcurrentLookups as number,
+    },
+  };
+}
+
+/**
+ * Read a consumer's own domain lists from their metadata
+ *
+ * @param data - Consumer metadata (request.user.data)
+ * @returns ConsumerUrlPolicy - The consumer's lists (absent lists are not set)
+ * @throws UrlPolicyError - If allowedDomains or deniedDomains is set but is
+ *   not an array of domains
+ */
+export function getConsumerUrlPolicy(data: Record<string, unknown> | undefined): ConsumerUrlPolicy {
+  const issues: string[] = [];
+  for (const field of ["allowedDomains", "deniedDomains"]) {
+    if (data?.[field] !== undefined && !isStringArray(data[field])) {
+      issues.push(`consumer metadata ${field} must be an array of domains`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new UrlPolicyError(issues);
+  }
+  return {
+    allowedDomains: data?.allowedDomains as string[] | undefined,
+    deniedDomains: data?.deniedDomains as string[] | undefined,
+  };
+}
+
+/**
+ * Load and validate the URL policy (cached after the first call)
+ *
+ * @returns UrlPolicyConfig - The validated policy
+ * @throws UrlPolicyError - If config/url-policy.json is invalid
+ */
+export function loadUrlPolicy(): UrlPolicyConfig {
+  if (!policy) {
+    policy = validateUrlPolicy(urlPolicyConfig);
+  }
+  return policy;
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+function parseIpv4(address: string): number | undefined {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return undefined;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const ip = parseIpv4(address);
+  if (ip === undefined) {
+    return false;
+  }
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(ip / size) === Math.floor(parseIpv4(network)! / size);
+  });
+}
+
+/**
+ * Expand an IPv6 address (without brackets) to 8 16-bit groups
+ */
+function parseIpv6(address: string): number[] | undefined {
+  let text = address.toLowerCase();
+
+  // Trailing embedded IPv4 (e.g. ::ffff:127.0.0.1) becomes two groups
+  const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (v4) {
+    const ip = parseIpv4(v4[1]);
+    if (ip === undefined) {
+      return undefined;
+    }
+    text = `${text.slice(0, -v4[1].length)}${Math.floor(ip / 65536).toString(16)}:${(ip % 65536).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return undefined;
+  }
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) {
+    return undefined;
+  }
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return true; // Unparseable literals are never crawled
+  }
+
+  const [first] = groups;
+  if (groups.every((group, i) => group === 0 || (i === 7 && group === 1))) {
+    return true; // Unspecified (::) and loopback (::1)
+  }
+  if ((first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00) {
+    return true; // Unique local, link-local, multicast
+  }
+  if (first === 0x2001 && groups[1] === 0x0db8) {
+    return true; // Documentation
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  const mapped = groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0);
+  const nat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) {
+    const ip = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+    return isBlockedIpv4(ip);
+  }
+  return false;
+}
+
+/**
+ * Check whether an IP address literal is private, loopback, link-local or reserved
+ *
+ * @param address - IPv4 or IPv6 address (IPv6 with or without brackets)
+ * @returns boolean - True if the address must not be crawled
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (address.includes(":") || address.startsWith("[")) {
+    return isBlockedIpv6(address.replace(/^\[|\]$/g, ""));
+  }
+  return isBlockedIpv4(address);
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return hostname.startsWith("[") || parseIpv4(hostname) !== undefined;
+}
+
+/**
+ * Resolve a hostname over DNS-over-HTTPS
+ *
+ * @returns Promise<string[] | null | undefined> - Addresses, null if the name
+ *   does not exist or has no addresses, undefined if resolution failed
+ */
+async function resolveHostname(
+  hostname: string,
+  dns: DnsResolutionConfig,
+  context: ZuploContext
+): Promise<string[] | null | undefined> {
+  const lookup = async (type: "A" | "AAAA") => {
+    const response = await fetch(`${dns.dohUrl}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { Accept: "application/dns-json" },
+      signal: AbortSignal.timeout(dns.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`DoH status=${response.status}`);
+    }
+    return response.json() as Promise<{ Status: number; Answer?: { type: number; data: string }[] }>;
+  };
+
+  try {
+    const results = await Promise.all([lookup("A"), lookup("AAAA")]);
+    // Status 0 = NOERROR, 3 = NXDOMAIN; anything else (SERVFAIL, REFUSED, ...) is a failed lookup
+    const failed = results.find((result) => result.Status !== 0 && result.Status !== 3);
+    if (failed) {
+      throw new Error(`DNS status=${failed.Status}`);
+    }
+    // Record types 1 (A) and 28 (AAAA); CNAMEs are followed by the resolver
+    const addresses = results.flatMap((result) =>
+      (result.Answer ?? []).filter((answer) => answer.type === 1 || answer.type === 28).map((answer) => answer.data)
+    );
+    return addresses.length > 0 ? addresses : null;
+  } catch (error) {
+    context.log.warn(`DNS resolution failed (rejecting): host=${hostname}, error=${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Create the hostname lookups for one request's URL checks
+ *
+ * Each hostname is resolved once, however many URLs use it, and at most
+ * dnsResolution.maxConcurrentLookups lookups (two DoH queries each) run at a time.
+ *
+ * @param context - Zuplo context for logging
+ * @returns HostnameLookups - Memoized, concurrency-limited resolver
+ */
+export function createHostnameLookups(context: ZuploContext): HostnameLookups {
+  const dns = loadUrlPolicy().dnsResolution;
+  const results = new Map<string, Promise<string[] | null | undefined>>();
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  const resolve = async (hostname: string) => {
+    while (active >= dns.maxConcurrentLookups) {
+      await new Promise<void>((wake) => waiting.push(wake));
+    }
+    active++;
+    try {
+      return await resolveHostname(hostname, dns, context);
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+
+  return (hostname) => {
+    let result = results.get(hostname);
+    if (!result) {
+      result = resolve(hostname);
+      results.set(hostname, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Check a target URL against the global and consumer URL policy
+ *
+ * @param rawUrl - URL submitted by the consumer
+ * @param consumerPolicy - Consumer's own domain lists (may be empty)
+ * @param context - Zuplo context for logging and DNS lookups
+ * @param lookups - Hostname lookups to share with the request's other checks
+ * @returns Promise<UrlViolation | undefined> - Why the URL is rejected, or
+ *   undefined if it may be fetched
+ */
+export async function checkTargetUrl(
+  rawUrl: unknown,
+  consumerPolicy: ConsumerUrlPolicy,
+  context: ZuploContext,
+  lookups: HostnameLookups = createHostnameLookups(context)
+): Promise<UrlViolation | undefined> {
+  const config = loadUrlPolicy();
+
+  if (typeof rawUrl !== "string" || !URL.canParse(rawUrl)) {
+    return { reason: "invalid_url", message: "Not a valid absolute URL" };
+  }
+  const url = new URL(rawUrl);
+
+  const scheme = url.protocol.replace(/:$/, "");
+  if (!config.allowedSchemes.includes(scheme)) {
+    return {
+      reason: "scheme_not_allowed",
+      message: `Scheme "${scheme}" is not allowed (allowed: ${config.allowedSchemes.join(", ")})`,
+    };
+  }
+
+  if (url.username || url.password) {
+    return { reason: "credentials_not_allowed", message: "URLs must not contain credentials" };
+  }
+
+  const port = url.port ? Number(url.port) : scheme === "https" ? 443 : 80;
+  if (config.allowedPorts.length > 0 && !config.allowedPorts.includes(port)) {
+    return {
+      reason: "port_not_allowed",
+      message: `Port ${port} is not allowed (allowed: ${config.allowedPorts.join(", ")})`,
+    };
+  }
+
+  // The URL parser has already normalized hostnames and numeric IPv4 forms
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+
+  const denied = [...config.deniedDomains, ...(consumerPolicy.deniedDomains ?? []).map(normalizeDomain)];
+  if (matchesDomain(hostname, denied)) {
+    return { reason: "domain_denied", message: `Crawling ${hostname} is not allowed` };
+  }
+
+  for (const allowed of [config.allowedDomains, (consumerPolicy.allowedDomains ?? []).map(normalizeDomain)]) {
+    if (allowed.length > 0 && !matchesDomain(hostname, allowed)) {
+      return { reason: "domain_not_allowed", message: `${hostname} is not on the list of allowed domains` };
+    }
+  }
+
+  if (isIpLiteral(hostname)) {
+    if (isPrivateAddress(hostname)) {
+      return { reason: "private_address", message: `${hostname} is a private, loopback or reserved address` };
+    }
+  } else if (config.dnsResolution.enabled) {
+    const addresses = await lookups(hostname);
+    if (addresses === null) {
+      return { reason: "unresolvable_host", message: `${hostname} does not resolve to any address` };
+    }
+    if (addresses === undefined) {
+      return { reason: "dns_lookup_failed", message: `${hostname} could not be looked up to check where it points` };
+    }
+    const privateAddress = addresses.find(isPrivateAddress);
+    if (privateAddress) {
+      return {
+        reason: "private_address",
+        message: `${hostname} resolves to a private, loopback or reserved address (${privateAddress})`,
+      };
+    }
+  }
+
+  return undefined;
+}
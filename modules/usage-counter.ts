@@ -0,0 +1,255 @@
+import { ZuploContext } from "@zuplo/runtime";
+import { getBillingCycleAnchor, getBillingPeriod } from "./billing-period";
+import { BillingProvider, resolveCustomerId } from "./billing-provider";
+import { StoreCommand, storeCommand, storeTransaction } from "./durable-store";
+
+/**
+ * Usage Counter
+ *
+ * Per-consumer usage for the current billing period, kept in the durable
+ * store (see durable-store.ts) so quota state is accurate to the request
+ * rather than to the last Stripe read, and the same in every zone.
+ *
+ * - billing-track increments the counter with the units of every billable
+ *   request, as soon as the response is known; cancellation-credit credits
+ *   back the units of a cancelled job to the period it was billed in
+ *   (usageCreditCommands)
+ * - quota-enforcement reads it before each request
+ * - Every RECONCILE_INTERVAL the counter is reconciled against the customer's
+ *   period usage from the billing provider (see billing-provider.ts) in the background.
+ *   The larger of the two wins: Stripe lags behind usage still buffered in
+ *   the billing outbox, while the local count misses usage recorded before
+ *   the counter existed. Stripe's meter never goes down, so the period's
+ *   credits are kept in the counter too and subtracted from Stripe's figure
+ * - A new billing period starts the counter from zero. Periods follow the
+ *   subscription's billing cycle (see billing-period.ts)
+ *
+ * Each counter is one hash per period (usage:<counter>:<period start>): the
+ * local count and the credits only change through HINCRBY and the provider's
+ * figure has its own field, so concurrent increments and reconciles never overwrite each
+ * other. Counters are keyed by subscription item, or by consumer for
+ * consumers without a Stripe subscription (e.g. free tier). Those are never
+ * reconciled: their atomic local count is the only record of their usage.
+ * Reconciling reads the usage of the consumer's Stripe customer: the
+ * stripeCustomerId in their metadata, or else the subscription item's
+ * customer (see resolveCustomerId in billing-provider.ts).
+ */
+
+// Reconcile against Stripe every 5 minutes
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Keep counters a little longer than the longest billing period
+const COUNTER_TTL_SECONDS = 40 * 24 * 60 * 60;
+
+/**
+ * Identifies whose usage is being counted
+ */
+export interface UsageCounterRef {
+  consumer: string;
+  subscriptionItemId?: string;
+  stripeCustomerId?: string;
+  billingCycleAnchor?: number; // Epoch ms, undefined for calendar months
+}
+
+/**
+ * Stored counter state
+ */
+interface UsageCounter {
+  local: number; // Units counted by the gateway this period, net of credits
+  credited: number; // Units credited back this period
+  billed?: number; // Period usage the billing provider reported at the last reconcile
+  reconciledAt: number; // Epoch ms, 0 if never reconciled
+}
+
+/**
+ * Key of a counter for a billing period (defaults to the current one)
+ */
+function counterKey(ref: UsageCounterRef, periodStart?: number): string {
+  const counter = ref.subscriptionItemId ? `item:${ref.subscriptionItemId}` : `consumer:${ref.consumer}`;
+  const start = new Date(periodStart ?? getBillingPeriod(Date.now(), ref.billingCycleAnchor).start).toISOString();
+  return `usage:${counter}:${start}`;
+}
+
+function usedOf(counter: UsageCounter): number {
+  return Math.max(0, counter.local, (counter.billed ?? 0) - counter.credited);
+}
+
+/**
+ * Build the counter reference for a consumer from their metadata
+ *
+ * @param consumer - Consumer name (request.user.sub)
+ * @param data - Consumer metadata (request.user.data)
+ * @returns UsageCounterRef - Consumer, subscription item, Stripe customer and billing cycle anchor
+ */
+export function getUsageCounterRef(consumer: string, data: Record<string, unknown> | undefined): UsageCounterRef {
+  return {
+    consumer,
+    subscriptionItemId: data?.stripeSubscriptionItemId as string | undefined,
+    stripeCustomerId: data?.stripeCustomerId as string | undefined,
+    billingCycleAnchor: getBillingCycleAnchor(data),
+  };
+}
+
+async function readCounter(ref: UsageCounterRef, context: ZuploContext): Promise<UsageCounter | undefined> {
+  try {
+    const [local, credited, billed, reconciledAt] = await storeCommand<(string | null)[]>([
+      "HMGET", counterKey(ref), "local", "credited", "billed", "reconciledAt",
+    ]);
+    if (local !== null || billed !== null || reconciledAt !== null) {
+      return {
+        local: Number(local ?? 0),
+        credited: Number(credited ?? 0),
+        billed: billed === null ? undefined : Number(billed),
+        reconciledAt: Number(reconciledAt ?? 0),
+      };
+    }
+  } catch (error) {
+    context.log.warn(`Usage counter read failed: ${error}`);
+  }
+  return undefined;
+}
+
+/**
+ * Reconcile a counter with the customer's period usage from the billing provider
+ *
+ * @returns Promise<number | undefined> - The reconciled usage, or undefined if Stripe was unavailable
+ */
+async function reconcile(
+  ref: UsageCounterRef,
+  provider: BillingProvider,
+  context: ZuploContext
+): Promise<number | undefined> {
+  const customerId = ref.stripeCustomerId ?? (await resolveCustomerId(ref.subscriptionItemId!, provider, context));
+  if (!customerId) {
+    return undefined;
+  }
+  const period = getBillingPeriod(Date.now(), ref.billingCycleAnchor);
+  const stripeUsage = await provider.getPeriodUsage(customerId, period, context);
+  if (stripeUsage === undefined) {
+    return undefined;
+  }
+
+  const key = counterKey(ref);
+  const reconciledAt = Date.now();
+  const [local, credited] = await storeTransaction([
+    ["HINCRBY", key, "local", 0],
+    ["HINCRBY", key, "credited", 0],
+    ["HSET", key, "billed", stripeUsage, "reconciledAt", reconciledAt],
+    ["EXPIRE", key, COUNTER_TTL_SECONDS],
+  ]);
+  const used = usedOf({ local: Number(local), credited: Number(credited), billed: stripeUsage, reconciledAt });
+
+  context.log.debug(`Usage reconciled: key=${key}, local=${local}, stripe=${stripeUsage}, used=${used}`);
+  return used;
+}
+
+/**
+ * Get current-period usage
+ *
+ * Returns the stored counter immediately; a stale counter is reconciled in the
+ * background. Only a counter that has never been reconciled waits for Stripe.
+ *
+ * @param ref - Consumer, subscription item and Stripe customer (if known)
+ * @param provider - Billing provider (undefined skips reconciliation)
+ * @param context - Zuplo context
+ * @returns Promise<number> - Units used this period
+ */
+export async function getCurrentUsage(
+  ref: UsageCounterRef,
+  provider: BillingProvider | undefined,
+  context: ZuploContext
+): Promise<number> {
+  const counter = await readCounter(ref, context);
+  const canReconcile = !!ref.subscriptionItemId && !!provider;
+
+  // Never reconciled (missing, or only local increments so far): wait for Stripe
+  if (!counter || counter.reconciledAt === 0) {
+    if (canReconcile) {
+      const reconciled = await reconcile(ref, provider!, context);
+      if (reconciled !== undefined) {
+        return reconciled;
+      }
+    }
+    return counter ? usedOf(counter) : 0; // Fail open
+  }
+
+  if (canReconcile && Date.now() - counter.reconciledAt >= RECONCILE_INTERVAL_MS) {
+    context.waitUntil(
+      reconcile(ref, provider!, context).catch((error) => {
+        context.log.warn(`Usage reconcile failed: ${error}`);
+      })
+    );
+  }
+
+  return usedOf(counter);
+}
+
+/**
+ * Add units to the current-period counter
+ *
+ * @param ref - Consumer and subscription item
+ * @param units - Units consumed by the request
+ * @param context - Zuplo context
+ * @returns Promise<number> - Units used this period after the increment
+ */
+export async function incrementUsage(
+  ref: UsageCounterRef,
+  units: number,
+  context: ZuploContext
+): Promise<number> {
+  const key = counterKey(ref);
+  const [local, credited, billed] = await storeTransaction([
+    ["HINCRBY", key, "local", units],
+    ["HINCRBY", key, "credited", 0],
+    ["HGET", key, "billed"],
+    ["EXPIRE", key, COUNTER_TTL_SECONDS],
+  ]);
+  context.log.debug(`Usage counted: key=${key}, units=${units}, local=${local}`);
+  return usedOf({
+    local: Number(local),
+    credited: Number(credited),
+    billed: billed === null ? undefined : Number(billed),
+    reconciledAt: 0,
+  });
+}
+
+/**
+ * Store commands that credit units back to a period's counter
+ *
+ * The credit is taken off the local count and added to the period's credits,
+ * so it still applies once the counter is reconciled against Stripe (whose
+ * meter keeps the original usage). The usage reported never drops below zero.
+ * Returned as commands so the caller can apply the credit in the same
+ * transaction as whatever records it (see cancellation-credit.ts).
+ *
+ * @param ref - Consumer and subscription item
+ * @param units - Units credited back
+ * @param periodStart - Start of the billing period the units were billed in (epoch ms)
+ * @returns StoreCommand[] - Commands for storeTransaction
+ */
+export function usageCreditCommands(ref: UsageCounterRef, units: number, periodStart: number): StoreCommand[] {
+  const key = counterKey(ref, periodStart);
+  return [
+    ["HINCRBY", key, "local", -units],
+    ["HINCRBY", key, "credited", units],
+    ["EXPIRE", key, COUNTER_TTL_SECONDS],
+  ];
+}
+
+/**
+ * Mark a counter stale so the next read reconciles from Stripe before answering
+ *
+ * Local usage is kept (Stripe may not have seen it yet); only the
+ * reconciliation timestamp is reset.
+ *
+ * @param ref - Consumer and subscription item
+ * @param context - Zuplo context
+ */
+export async function invalidateUsage(ref: UsageCounterRef, context: ZuploContext): Promise<void> {
+  const key = counterKey(ref);
+  await storeTransaction([
+    ["HSET", key, "reconciledAt", 0],
+    ["EXPIRE", key, COUNTER_TTL_SECONDS],
+  ]);
+  context.log.debug(`Usage counter invalidated: key=${key}`);
+}
@@ -0,0 +1,77 @@
+import { ZuploContext, ZuploRequest } from "@zuplo/runtime";
+import { WebhookRegistration, getWebhook, redeliverWebhook } from "./webhooks";
+import { gatewayProblem } from "./problems";
+
+/**
+ * Webhook Deliveries - Request Handlers
+ *
+ * Lets consumers debug the completion webhook of one of their jobs (see
+ * webhooks.ts). Both routes run job-ownership first.
+ *
+ * - GET /crawl/job/{jobId}/webhook-deliveries: Webhook state and recorded attempts
+ * - POST /crawl/job/{jobId}/webhook-deliveries/redeliver: Send the job's
+ *   event again now (409 until the job has finished)
+ */
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function findWebhook(
+  request: ZuploRequest,
+  context: ZuploContext
+): Promise<WebhookRegistration | Response> {
+  const jobId = request.params.jobId;
+  const registration = await getWebhook(jobId, context);
+  if (!registration) {
+    return gatewayProblem(request, context, "not-found", `Job ${jobId} was submitted without a webhook_url.`);
+  }
+  return registration;
+}
+
+/**
+ * Get a job's webhook state and delivery attempts (newest first)
+ */
+export async function listWebhookDeliveries(request: ZuploRequest, context: ZuploContext) {
+  const registration = await findWebhook(request, context);
+  if (registration instanceof Response) {
+    return registration;
+  }
+
+  return jsonResponse({
+    jobId: registration.jobId,
+    webhookUrl: registration.url,
+    state: registration.state,
+    eventId: registration.event?.id ?? null,
+    eventType: registration.event?.type ?? null,
+    attempts: registration.attempts,
+    nextAttemptAt: registration.nextAttemptAt ? new Date(registration.nextAttemptAt).toISOString() : null,
+    deliveries: [...registration.deliveries].reverse(),
+  });
+}
+
+/**
+ * Redeliver a finished job's webhook event
+ */
+export async function redeliverJobWebhook(request: ZuploRequest, context: ZuploContext) {
+  const registration = await findWebhook(request, context);
+  if (registration instanceof Response) {
+    return registration;
+  }
+
+  if (!registration.event) {
+    return gatewayProblem(
+      request,
+      context,
+      "conflict",
+      `Job ${registration.jobId} has not finished yet; its webhook will be delivered when it does.`,
+      { state: registration.state }
+    );
+  }
+
+  const delivery = await redeliverWebhook(registration, context);
+  return jsonResponse({ delivery });
+}
@@ -0,0 +1,136 @@
+/**
+ * Webhook Signatures
+ *
+ * Every webhook the gateway delivers is signed with HMAC-SHA256 using the
+ * receiving consumer's webhook secret, so receivers can reject callbacks that
+ * did not come from the gateway, or that were replayed later.
+ *
+ * This module has no gateway dependencies (Web Crypto only) so customers can
+ * copy verifyWebhookSignature as-is; the scheme below is all another language needs.
+ *
+ * Header:
+ *   X-Crawl4AI-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * Signed string:
+ *   <t>.<raw request body>
+ *
+ * Secrets: each consumer has their own random secret (generateWebhookSecret),
+ * created the first time it is needed and stored by the gateway (see
+ * webhooks.ts), so one consumer's secret says nothing about another's.
+ */
+
+const SIGNATURE_VERSION = "v1";
+
+/**
+ * Header carrying the webhook signature
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Crawl4AI-Signature";
+
+/**
+ * Default age (seconds) after which a signed webhook is rejected
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string) {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function importKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  return toHex(await crypto.subtle.sign("HMAC", await importKey(secret, "sign"), encoder.encode(message)));
+}
+
+/**
+ * Check a hex HMAC-SHA256 signature of a message
+ *
+ * Also used for Stripe's webhook signatures (see stripe.ts), which use the
+ * same construction.
+ *
+ * @param secret - The signing secret
+ * @param message - The signed string
+ * @param signature - Hex signature to check (anything that is not hex fails)
+ * @returns Promise<boolean> - True if the signature matches
+ */
+export async function verifyHmacHex(secret: string, message: string, signature: string): Promise<boolean> {
+  const bytes = fromHex(signature);
+  if (!bytes) {
+    return false;
+  }
+  // crypto.subtle.verify compares in constant time
+  return crypto.subtle.verify("HMAC", await importKey(secret, "verify"), bytes, encoder.encode(message));
+}
+
+/**
+ * Generate a new webhook secret
+ *
+ * @returns string - "whsec_" + 32 random bytes in hex
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+}
+
+/**
+ * Sign a webhook payload
+ *
+ * @param payload - Raw request body, exactly as it will be sent
+ * @param secret - The receiving consumer's webhook secret
+ * @param timestamp - Unix time (seconds) to sign at (defaults to now)
+ * @returns Promise<string> - Value for the X-Crawl4AI-Signature header
+ */
+export async function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},${SIGNATURE_VERSION}=${await hmacHex(secret, `${timestamp}.${payload}`)}`;
+}
+
+/**
+ * Verify a webhook signature (for use by webhook receivers)
+ *
+ * @param payload - Raw request body as received (before JSON parsing)
+ * @param header - X-Crawl4AI-Signature header value
+ * @param secret - Your webhook secret
+ * @param toleranceSeconds - Maximum age of the signature
+ * @returns Promise<boolean> - True if the payload is authentic and recent
+ */
+export async function verifyWebhookSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): Promise<boolean> {
+  const fields = Object.fromEntries(
+    (header ?? "").split(",").map((part) => {
+      const [name, ...value] = part.trim().split("=");
+      return [name, value.join("=")];
+    })
+  );
+
+  const timestamp = fields.t;
+  const signature = fields[SIGNATURE_VERSION];
+  if (!timestamp || !/^\d+$/.test(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp)) > toleranceSeconds) {
+    return false;
+  }
+
+  return verifyHmacHex(secret, `${timestamp}.${payload}`, signature);
+}
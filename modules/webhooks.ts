@@ -0,0 +1,590 @@
+import { ZuploContext, environment } from "@zuplo/runtime";
+import { getBackend } from "./backend-pool";
+import { getSigningKey, sendToBackend } from "./backend-proxy";
+import { StoreCommand, parseStored, storeCommand, storePipeline, storeTransaction, toHash } from "./durable-store";
+import { getJob, isTerminalJobStatus, markJobFinished, updateJobStatus } from "./jobs";
+import { checkTargetUrl } from "./url-policy";
+import { WEBHOOK_SIGNATURE_HEADER, generateWebhookSecret, signWebhookPayload } from "./webhook-signature";
+
+/**
+ * Job Completion Webhooks
+ *
+ * A crawl job submitted with a webhook_url is registered here (by job-tracking,
+ * once the backend has accepted the job). When the job reaches a terminal
+ * status the gateway POSTs the job's final status and results to that URL,
+ * signed with the consumer's webhook secret (see webhook-signature.ts).
+ *
+ * Finding out that a job finished:
+ * - job-tracking passes on terminal statuses it sees in status polls
+ *   (notifyJobFinished), which carry the job's results
+ * - Otherwise the gateway asks the job's backend itself, at most every
+ *   STATUS_CHECK_INTERVAL per job, so consumers do not need to poll at all
+ *
+ * Delivery:
+ * - Any 2xx response is a success; anything else (including redirects, which
+ *   are not followed) is retried with exponential backoff: 30s, 1m, 2m, ...
+ *   up to MAX_ATTEMPTS, after which the webhook is marked failed
+ * - The URL is re-checked against the URL policy before every attempt, since
+ *   its DNS may have changed since submission; a rejected URL fails at once
+ * - Deliveries are sent through the egress proxy (WEBHOOK_EGRESS_PROXY_URL),
+ *   never fetched directly: the URL policy's DNS lookup and the connection
+ *   would otherwise resolve the name separately, and a receiver could answer
+ *   the second lookup with a private address (DNS rebinding). The proxy
+ *   resolves the name once, refuses private, loopback and reserved addresses,
+ *   and connects to the address it checked. Contract: the gateway POSTs the
+ *   delivery (headers and body) to the proxy with X-Egress-Target-URL set to
+ *   the webhook URL and the proxy token as a Bearer Authorization header; the
+ *   proxy does not follow redirects and relays the receiver's status, or
+ *   answers with an X-Egress-Error header (disallowed-address for a refused
+ *   address) when it did not deliver
+ * - Every attempt is recorded (the latest MAX_RECORDED_DELIVERIES) for
+ *   GET /crawl/job/{jobId}/webhook-deliveries, and a finished webhook can be
+ *   redelivered on demand (redeliverWebhook)
+ * - Receivers should de-duplicate on the event id (evt_<jobId>): retries and
+ *   redeliveries carry the same id, and so does an event captured twice by
+ *   racing status polls
+ * - One attempt at a time per job: a short lease (webhook:lease:<jobId>)
+ *   keeps concurrent drains from delivering the same event in parallel
+ *
+ * Zuplo has no scheduler, so status checks and retries run opportunistically
+ * in the background of job traffic (drainWebhooks, at most once per
+ * DRAIN_INTERVAL per isolate).
+ *
+ * Storage: the durable store (see durable-store.ts), one set of keys per job,
+ * each change a single command or transaction:
+ * - webhook:<jobId>: Hash with the registration, the captured event (set
+ *   once, HSETNX), the attempt count and the outcome
+ * - webhook:secret:<consumer>: The consumer's random webhook secret (see
+ *   webhook-signature.ts), created once (SET NX) and kept without expiry
+ * - webhook:deliveries:<jobId>: Sorted set of recorded attempts, by time
+ * - webhooks:active: Sorted set of the jobs whose webhook is still waiting or
+ *   retrying, scored by when the drain should next look at them
+ *
+ * Requirements:
+ * - Environment variables: WEBHOOK_EGRESS_PROXY_URL, WEBHOOK_EGRESS_PROXY_TOKEN
+ *   (see env.example). Without them deliveries fail and are retried
+ */
+
+// Keep registrations and their delivery history for 30 days
+const WEBHOOK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Ask the backend about an unfinished job at most every 30 seconds
+const STATUS_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Stop waiting for a job that has not finished after 24 hours
+const WATCH_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Retry schedule
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RECORDED_DELIVERIES = 50;
+
+// Opportunistic draining (per isolate)
+const DRAIN_INTERVAL_MS = 15 * 1000;
+const DRAIN_BATCH_SIZE = 10;
+
+// Longest a delivery attempt may hold a job's lease
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// Set by the egress proxy on responses it did not get from the receiver
+const EGRESS_ERROR_HEADER = "X-Egress-Error";
+
+const ACTIVE_KEY = "webhooks:active";
+
+let lastDrainAt = 0;
+
+/**
+ * Webhook lifecycle
+ * - waiting: The job has not finished yet
+ * - delivering: The job finished; delivery is in progress or being retried
+ * - delivered: The receiver accepted the event
+ * - failed: Every attempt failed, or the URL is no longer allowed
+ * - expired: The job never reported a terminal status (or the backend lost it)
+ */
+export type WebhookState = "waiting" | "delivering" | "delivered" | "failed" | "expired";
+
+/**
+ * Event delivered to the webhook URL
+ * - id: evt_<jobId>; a job has exactly one event
+ * - type: "crawl.job.<terminal status>", e.g. crawl.job.completed
+ * - data: The job as reported by the backend (status and results)
+ */
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  jobId: string;
+  createdAt: string;
+  data: unknown;
+}
+
+/**
+ * One delivery attempt
+ * - attempt: Number of the automatic attempt (absent for redeliveries)
+ * - redelivery: True for attempts requested through the redelivery route
+ * - status: Receiver's HTTP status (absent if no response was received)
+ */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  attempt?: number;
+  redelivery: boolean;
+  attemptedAt: string;
+  durationMs: number;
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Stored webhook registration for one job
+ * - lastCheckedAt: Epoch ms the backend was last asked about the job
+ * - nextAttemptAt: Epoch ms of the next automatic delivery attempt
+ */
+export interface WebhookRegistration {
+  jobId: string;
+  consumer: string;
+  tier: string;
+  url: string;
+  state: WebhookState;
+  createdAt: string;
+  lastCheckedAt: number;
+  attempts: number;
+  nextAttemptAt?: number;
+  event?: WebhookEvent;
+  deliveries: WebhookDelivery[];
+}
+
+/**
+ * Outcome of a webhook that is no longer active
+ */
+type WebhookOutcome = Extract<WebhookState, "delivered" | "failed" | "expired">;
+
+function webhookKey(jobId: string): string {
+  return `webhook:${jobId}`;
+}
+
+function deliveriesKey(jobId: string): string {
+  return `webhook:deliveries:${jobId}`;
+}
+
+function leaseKey(jobId: string): string {
+  return `webhook:lease:${jobId}`;
+}
+
+function secretKey(consumer: string): string {
+  return `webhook:secret:${consumer}`;
+}
+
+/**
+ * Commands that record a delivery attempt, keeping the latest MAX_RECORDED_DELIVERIES
+ */
+function recordDelivery(jobId: string, delivery: WebhookDelivery): StoreCommand[] {
+  return [
+    ["ZADD", deliveriesKey(jobId), Date.parse(delivery.attemptedAt), JSON.stringify(delivery)],
+    ["ZREMRANGEBYRANK", deliveriesKey(jobId), 0, -(MAX_RECORDED_DELIVERIES + 1)],
+    ["EXPIRE", deliveriesKey(jobId), WEBHOOK_TTL_SECONDS],
+  ];
+}
+
+/**
+ * Commands that end a webhook: delivered replaces an earlier outcome (a
+ * successful redelivery), failed and expired never do
+ */
+function finish(jobId: string, outcome: WebhookOutcome): StoreCommand[] {
+  return [
+    [outcome === "delivered" ? "HSET" : "HSETNX", webhookKey(jobId), "outcome", outcome],
+    ["HDEL", webhookKey(jobId), "nextAttemptAt"],
+    ["ZREM", ACTIVE_KEY, jobId],
+  ];
+}
+
+/**
+ * Register a webhook for a newly submitted job
+ *
+ * @param input - The job, its owner and the (already policy-checked) URL
+ * @param context - Zuplo context
+ */
+export async function registerWebhook(
+  input: Pick<WebhookRegistration, "jobId" | "consumer" | "tier" | "url">,
+  context: ZuploContext
+): Promise<void> {
+  const now = Date.now();
+  const key = webhookKey(input.jobId);
+  const registration = { ...input, createdAt: new Date(now).toISOString() };
+  await storeTransaction([
+    ["HSET", key, "registration", JSON.stringify(registration), "lastCheckedAt", now],
+    ["EXPIRE", key, WEBHOOK_TTL_SECONDS],
+    ["ZADD", ACTIVE_KEY, now + STATUS_CHECK_INTERVAL_MS, input.jobId],
+  ]);
+  context.log.debug(`Webhook registered: user=${input.consumer}, jobId=${input.jobId}`);
+}
+
+/**
+ * Get a consumer's webhook secret, creating it the first time
+ *
+ * Concurrent first calls agree on one secret: only the first SET NX stores
+ * its secret, and every call returns the stored one.
+ *
+ * @param consumer - Consumer name
+ * @param context - Zuplo context
+ * @returns Promise<string> - The consumer's secret ("whsec_...")
+ */
+export async function getConsumerWebhookSecret(consumer: string, context: ZuploContext): Promise<string> {
+  const [created, secret] = await storeTransaction([
+    ["SET", secretKey(consumer), generateWebhookSecret(), "NX"],
+    ["GET", secretKey(consumer)],
+  ]);
+  if (created !== null) {
+    context.log.info(`Webhook secret created: user=${consumer}`);
+  }
+  return secret as string;
+}
+
+/**
+ * Look up a job's webhook registration
+ *
+ * @param jobId - The job ID
+ * @param context - Zuplo context
+ * @returns Promise<WebhookRegistration | undefined> - The registration, or
+ *   undefined if the job was submitted without a webhook_url
+ */
+export async function getWebhook(jobId: string, context: ZuploContext): Promise<WebhookRegistration | undefined> {
+  const [fields, deliveries] = await storePipeline([
+    ["HGETALL", webhookKey(jobId)],
+    ["ZRANGE", deliveriesKey(jobId), 0, -1],
+  ]);
+  const hash = toHash(fields);
+  const registration = parseStored<Pick<WebhookRegistration, "jobId" | "consumer" | "tier" | "url" | "createdAt">>(
+    hash.registration
+  );
+  if (!registration) {
+    return undefined;
+  }
+
+  const event = parseStored<WebhookEvent>(hash.event);
+  return {
+    ...registration,
+    state: (hash.outcome as WebhookOutcome | undefined) ?? (event ? "delivering" : "waiting"),
+    lastCheckedAt: Number(hash.lastCheckedAt ?? 0),
+    attempts: Number(hash.attempts ?? 0),
+    nextAttemptAt: hash.nextAttemptAt ? Number(hash.nextAttemptAt) : undefined,
+    event,
+    deliveries: ((deliveries as string[] | null) ?? []).map((delivery) => JSON.parse(delivery) as WebhookDelivery),
+  };
+}
+
+/**
+ * Record that a job reached a terminal status, and deliver its webhook
+ *
+ * Does nothing for jobs without a webhook, or whose event was already
+ * captured (only the first capture is kept, so racing callers deliver the
+ * same event). Callers should run this in the background (context.waitUntil).
+ *
+ * @param jobId - The finished job
+ * @param job - The job as reported by the backend (must carry a terminal status)
+ * @param context - Zuplo context
+ */
+export async function notifyJobFinished(jobId: string, job: unknown, context: ZuploContext): Promise<void> {
+  const registration = await getWebhook(jobId, context);
+  if (!registration || registration.state !== "waiting") {
+    return;
+  }
+
+  const status = String((job as { status?: unknown })?.status).toLowerCase();
+  const event: WebhookEvent = {
+    id: `evt_${jobId}`,
+    type: `crawl.job.${status}`,
+    jobId,
+    createdAt: new Date().toISOString(),
+    data: job,
+  };
+  const captured = await storeCommand<number>(["HSETNX", webhookKey(jobId), "event", JSON.stringify(event)]);
+  if (!captured) {
+    return;
+  }
+
+  context.log.info(`Webhook event captured: jobId=${jobId}, type=${event.type}`);
+  await deliverWebhook(jobId, context);
+}
+
+/**
+ * POST an event to the webhook URL once
+ *
+ * @returns Promise<{ delivery, retryable }> - The attempt, and whether a later
+ *   attempt may succeed (false once the URL policy rejects the URL)
+ */
+async function attemptDelivery(
+  registration: WebhookRegistration,
+  event: WebhookEvent,
+  redelivery: boolean,
+  context: ZuploContext
+): Promise<{ delivery: WebhookDelivery; retryable: boolean }> {
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    eventId: event.id,
+    attempt: redelivery ? undefined : registration.attempts + 1,
+    redelivery,
+    attemptedAt: new Date().toISOString(),
+    durationMs: 0,
+    ok: false,
+  };
+  const started = Date.now();
+
+  const proxyUrl = environment.WEBHOOK_EGRESS_PROXY_URL;
+  const proxyToken = environment.WEBHOOK_EGRESS_PROXY_TOKEN;
+  if (!proxyUrl || !proxyToken) {
+    context.log.error("WEBHOOK_EGRESS_PROXY_URL / WEBHOOK_EGRESS_PROXY_TOKEN environment variables not configured");
+    return { delivery: { ...delivery, error: "webhook delivery not configured" }, retryable: true };
+  }
+
+  const violation = await checkTargetUrl(registration.url, {}, context);
+  if (violation) {
+    // A failed DNS lookup is retried; any other violation never goes away
+    return {
+      delivery: { ...delivery, error: `URL rejected: ${violation.message}` },
+      retryable: violation.reason === "dns_lookup_failed",
+    };
+  }
+
+  const payload = JSON.stringify(event);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const secret = await getConsumerWebhookSecret(registration.consumer, context);
+    const response = await fetch(proxyUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${proxyToken}`,
+        "X-Egress-Target-URL": registration.url,
+        "Content-Type": "application/json",
+        "User-Agent": "Crawl4AI-Webhooks/1.0",
+        "X-Crawl4AI-Event-Id": event.id,
+        "X-Crawl4AI-Delivery-Id": delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(payload, secret),
+      },
+      body: payload,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    await response.body?.cancel();
+
+    const egressError = response.headers.get(EGRESS_ERROR_HEADER);
+    if (egressError) {
+      // A refused address is the URL policy's private_address, seen at connect time
+      return {
+        delivery: { ...delivery, durationMs: Date.now() - started, error: `egress proxy: ${egressError}` },
+        retryable: egressError !== "disallowed-address",
+      };
+    }
+    return {
+      delivery: {
+        ...delivery,
+        durationMs: Date.now() - started,
+        ok: response.ok,
+        status: response.status,
+        error: response.ok ? undefined : `receiver responded ${response.status}`,
+      },
+      retryable: true,
+    };
+  } catch (error) {
+    return {
+      delivery: {
+        ...delivery,
+        durationMs: Date.now() - started,
+        error: controller.signal.aborted ? `no response within ${DELIVERY_TIMEOUT_MS}ms` : `${error}`,
+      },
+      retryable: true,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Make the next automatic delivery attempt and schedule the one after it
+ *
+ * Takes the job's delivery lease and re-reads the registration under it;
+ * does nothing if another attempt holds the lease, or the webhook is not due.
+ *
+ * @param jobId - A job whose webhook is in the delivering state
+ * @param context - Zuplo context
+ * @returns Promise<WebhookDelivery | undefined> - The recorded attempt, if one was made
+ */
+async function deliverWebhook(jobId: string, context: ZuploContext): Promise<WebhookDelivery | undefined> {
+  const lease = await storeCommand(["SET", leaseKey(jobId), "1", "NX", "PX", DELIVERY_LEASE_MS]);
+  if (lease === null) {
+    return undefined;
+  }
+
+  const release: StoreCommand = ["DEL", leaseKey(jobId)];
+  let registration: WebhookRegistration | undefined;
+  try {
+    registration = await getWebhook(jobId, context);
+  } catch (error) {
+    await storeCommand(release);
+    throw error;
+  }
+  if (registration?.state !== "delivering" || (registration.nextAttemptAt ?? 0) > Date.now()) {
+    await storeCommand(release);
+    return undefined;
+  }
+
+  const { delivery, retryable } = await attemptDelivery(registration, registration.event!, false, context);
+  const attempts = registration.attempts + 1;
+  const key = webhookKey(jobId);
+
+  let state: WebhookState = "delivering";
+  let outcome: StoreCommand[];
+  if (delivery.ok) {
+    state = "delivered";
+    outcome = finish(jobId, "delivered");
+  } else if (retryable && attempts < MAX_ATTEMPTS) {
+    const nextAttemptAt = Date.now() + BASE_BACKOFF_MS * 2 ** (attempts - 1);
+    outcome = [
+      ["HSET", key, "nextAttemptAt", nextAttemptAt],
+      ["ZADD", ACTIVE_KEY, nextAttemptAt, jobId],
+    ];
+  } else {
+    state = "failed";
+    outcome = finish(jobId, "failed");
+  }
+
+  await storeTransaction([
+    ...recordDelivery(jobId, delivery),
+    ["HSET", key, "attempts", attempts],
+    ...outcome,
+    ["EXPIRE", key, WEBHOOK_TTL_SECONDS],
+    release,
+  ]);
+
+  const summary = `jobId=${jobId}, attempt=${delivery.attempt}, status=${delivery.status}, state=${state}`;
+  if (delivery.ok) {
+    context.log.info(`Webhook delivered: ${summary}`);
+  } else {
+    context.log.warn(`Webhook delivery failed: ${summary}, error=${delivery.error}`);
+  }
+  return delivery;
+}
+
+/**
+ * Deliver a finished job's event again, immediately
+ *
+ * Sends the same event (same id and payload) as the original delivery. A
+ * successful redelivery marks the webhook delivered; a failed one does not
+ * change the retry schedule.
+ *
+ * @param registration - A registration whose job has finished (has an event)
+ * @param context - Zuplo context
+ * @returns Promise<WebhookDelivery> - The recorded attempt
+ */
+export async function redeliverWebhook(
+  registration: WebhookRegistration,
+  context: ZuploContext
+): Promise<WebhookDelivery> {
+  const { delivery } = await attemptDelivery(registration, registration.event!, true, context);
+  await storeTransaction([
+    ...recordDelivery(registration.jobId, delivery),
+    ...(delivery.ok ? finish(registration.jobId, "delivered") : []),
+  ]);
+
+  context.log.info(
+    `Webhook redelivery: jobId=${registration.jobId}, ok=${delivery.ok}, status=${delivery.status}` +
+      (delivery.error ? `, error=${delivery.error}` : "")
+  );
+  return delivery;
+}
+
+/**
+ * Ask the job's backend whether a waiting job has finished
+ */
+async function checkJobStatus(registration: WebhookRegistration, context: ZuploContext): Promise<void> {
+  const job = await getJob(registration.jobId, context);
+  const backend = job && getBackend(job.backendId);
+  const signingKey = getSigningKey(context);
+
+  const now = Date.now();
+  await storeTransaction([
+    ["HSET", webhookKey(registration.jobId), "lastCheckedAt", now],
+    ["ZADD", ACTIVE_KEY, now + STATUS_CHECK_INTERVAL_MS, registration.jobId],
+  ]);
+  if (!backend || !signingKey) {
+    return;
+  }
+
+  const headers = new Headers({ Accept: "application/json", "X-Request-ID": context.requestId });
+  const response = await sendToBackend(
+    backend,
+    "GET",
+    `/crawl/job/${encodeURIComponent(registration.jobId)}`,
+    headers,
+    undefined,
+    { consumer: registration.consumer, tier: registration.tier },
+    signingKey,
+    context
+  );
+
+  if (response.status === 404) {
+    await response.body?.cancel();
+    await expire(registration, "backend no longer knows the job", context);
+    return;
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    return;
+  }
+
+  const body = await response.json();
+  if (typeof body?.status === "string") {
+    await updateJobStatus(registration.consumer, registration.jobId, body.status, context);
+  }
+  if (isTerminalJobStatus(body?.status)) {
+    await markJobFinished(registration.consumer, registration.jobId, context);
+    await notifyJobFinished(registration.jobId, body, context);
+  }
+}
+
+async function expire(registration: WebhookRegistration, reason: string, context: ZuploContext): Promise<void> {
+  await storeTransaction(finish(registration.jobId, "expired"));
+  context.log.warn(`Webhook expired: jobId=${registration.jobId}, reason=${reason}`);
+}
+
+/**
+ * Check waiting jobs and retry due deliveries
+ *
+ * Runs at most once per DRAIN_INTERVAL per isolate unless forced; call it in
+ * the background (context.waitUntil).
+ *
+ * @param context - Zuplo context
+ * @param options.force - Ignore the per-isolate drain interval
+ */
+export async function drainWebhooks(context: ZuploContext, options: { force?: boolean } = {}): Promise<void> {
+  const now = Date.now();
+  if (!options.force && now - lastDrainAt < DRAIN_INTERVAL_MS) {
+    return;
+  }
+  lastDrainAt = now;
+
+  // Jobs due a status check or a delivery attempt
+  const due = await storeCommand<string[]>([
+    "ZRANGE", ACTIVE_KEY, "-inf", now, "BYSCORE", "LIMIT", 0, DRAIN_BATCH_SIZE,
+  ]);
+
+  for (const jobId of due) {
+    try {
+      const registration = await getWebhook(jobId, context);
+      if (!registration || (registration.state !== "waiting" && registration.state !== "delivering")) {
+        await storeCommand(["ZREM", ACTIVE_KEY, jobId]);
+      } else if (registration.state === "delivering") {
+        await deliverWebhook(jobId, context);
+      } else if (now - Date.parse(registration.createdAt) > WATCH_MAX_AGE_MS) {
+        await expire(registration, "job did not finish in time", context);
+      } else {
+        await checkJobStatus(registration, context);
+      }
+    } catch (error) {
+      context.log.warn(`Webhook drain failed: jobId=${jobId}, error=${error}`);
+    }
+  }
+}
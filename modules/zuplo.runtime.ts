@@ -0,0 +1,34 @@
+import { RuntimeExtensions } from "@zuplo/runtime";
+import { loadPlanCatalog } from "./plans";
+import { loadBackendPool } from "./backend-pool";
+import { loadUrlPolicy } from "./url-policy";
+import { loadBillingConfig } from "./billing-provider";
+import { getDurableStore } from "./durable-store";
+import { normalizeProblemResponse } from "./problems";
+import { rewriteRateLimitRejection } from "./rate-limiting";
+
+/**
+ * Runtime initialization
+ *
+ * Runs once when the gateway starts. Validates the plan catalog, backend pool,
+ * URL policy, billing config and durable store settings so that a bad
+ * config/plans.json, config/backends.json, config/url-policy.json or
+ * config/billing.json (or BILLING_PROVIDER, or a missing DURABLE_STORE_URL or
+ * DURABLE_STORE_TOKEN, which every deployment must set, see env.example)
+ * fails at startup rather than on the first request.
+ *
+ * Also rewrites errors from built-in policies (e.g. api-key-auth's 401) into
+ * the gateway's problem format (see problems.ts), with the built-in
+ * rate-limit policy's 429s getting the hourly limit details first (see
+ * rate-limiting.ts).
+ */
+export function runtimeInit(runtime: RuntimeExtensions) {
+  loadPlanCatalog();
+  loadBackendPool();
+  loadUrlPolicy();
+  loadBillingConfig();
+  getDurableStore();
+
+  runtime.addResponseSendingHook(rewriteRateLimitRejection);
+  runtime.addResponseSendingHook(normalizeProblemResponse);
+}
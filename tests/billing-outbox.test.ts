@@ -0,0 +1,122 @@
+import { describe, it, beforeAll, beforeEach } from "@zuplo/test";
+import assert from "node:assert/strict";
+import { setDurableStore, storeCommand } from "../modules/durable-store";
+import { createMemoryDurableStore } from "../modules/durable-store-memory";
+import { createMemoryBillingProvider } from "../modules/billing-memory";
+import { BillingProvider } from "../modules/billing-provider";
+import { getBillingPeriod } from "../modules/billing-period";
+import {
+  NewUsageEvent,
+  drainOutbox,
+  enqueueUsageEvent,
+  flushUsage,
+  listDeadLetters,
+  replayDeadLetters,
+} from "../modules/billing-outbox";
+import { mockContext } from "./mock-context";
+
+/**
+ * Billing outbox sealing, delivery and dead-lettering against the memory
+ * durable store. The store's data lasts for the whole run, so each test first
+ * delivers whatever earlier tests left pending or due.
+ */
+
+const provider = createMemoryBillingProvider({
+  subscriptions: [
+    {
+      id: "sub_outbox",
+      customerId: "cus_outbox",
+      status: "active",
+      tier: "crawler",
+      subscriptionItemId: "si_outbox",
+      billingCycleAnchor: 1767657600,
+    },
+  ],
+  usage: [],
+});
+
+/**
+ * A provider that fails every meter event, as Stripe does for e.g. a deleted customer
+ */
+function failingProvider(retryable: boolean): BillingProvider {
+  return {
+    ...provider,
+    recordUsage: async () => ({ ok: false, retryable, error: "customer deleted" }),
+  };
+}
+
+function usage(quantity: number): NewUsageEvent {
+  return { subscriptionItemId: "si_outbox", quantity, consumer: "outbox-test", tier: "crawler" };
+}
+
+describe("Billing outbox", () => {
+  beforeAll(() => {
+    setDurableStore(createMemoryDurableStore());
+  });
+
+  beforeEach(async () => {
+    await drainOutbox(provider, mockContext(), { force: true, flushAll: true });
+  });
+
+  it("seals an item's pending events into one batch, once", async () => {
+    const context = mockContext();
+    await enqueueUsageEvent(usage(3), context);
+    await enqueueUsageEvent(usage(4), context);
+
+    const [batch, ...others] = await flushUsage(context, { force: true });
+    assert.equal(others.length, 0);
+    assert.equal(batch.subscriptionItemId, "si_outbox");
+    assert.equal(batch.quantity, 7);
+    assert.equal(batch.eventIds.length, 2);
+    assert.deepEqual(await flushUsage(context, { force: true }), []);
+  });
+
+  it("flags an item for flushing once its pending units reach the threshold", async () => {
+    const context = mockContext();
+    assert.equal((await enqueueUsageEvent(usage(600), context)).flushDue, false);
+    assert.equal((await enqueueUsageEvent(usage(400), context)).flushDue, true);
+  });
+
+  it("delivers sealed usage to the subscription item's customer", async () => {
+    const context = mockContext();
+    const before = await provider.getPeriodUsage("cus_outbox", getBillingPeriod(), context);
+    await enqueueUsageEvent(usage(25), context);
+
+    const result = await drainOutbox(provider, context, { force: true, flushAll: true });
+    assert.deepEqual(result, { flushed: 1, delivered: 1, retrying: 0, deadLettered: 0 });
+    assert.equal(await provider.getPeriodUsage("cus_outbox", getBillingPeriod(), context), (before ?? 0) + 25);
+    assert.deepEqual(await storeCommand(["ZRANGE", "outbox:open", 0, -1]), []);
+  });
+
+  it("backs off after a retryable failure", async () => {
+    const context = mockContext();
+    await enqueueUsageEvent(usage(5), context);
+
+    const first = await drainOutbox(failingProvider(true), context, { force: true, flushAll: true });
+    assert.deepEqual(first, { flushed: 1, delivered: 0, retrying: 1, deadLettered: 0 });
+
+    // Not due again until the backoff has passed
+    const second = await drainOutbox(provider, context, { force: true });
+    assert.deepEqual(second, { flushed: 0, delivered: 0, retrying: 0, deadLettered: 0 });
+    assert.deepEqual(await listDeadLetters(context), []);
+  });
+
+  it("dead-letters a batch on a permanent failure and keeps it until replayed", async () => {
+    const context = mockContext();
+    await enqueueUsageEvent(usage(9), context);
+
+    const result = await drainOutbox(failingProvider(false), context, { force: true, flushAll: true });
+    assert.equal(result.deadLettered, 1);
+
+    const [dead] = await listDeadLetters(context);
+    assert.equal(dead.quantity, 9);
+    assert.equal(dead.lastError, "customer deleted");
+    assert.ok(dead.deadLetteredAt);
+    assert.equal(await storeCommand(["PTTL", `outbox:batch:${dead.id}`]), -1);
+
+    const replayed = await replayDeadLetters([dead.id], provider, context);
+    assert.deepEqual(replayed, { flushed: 0, delivered: 1, retrying: 0, deadLettered: 0 });
+    assert.deepEqual(await listDeadLetters(context), []);
+    assert.equal(await storeCommand(["GET", `outbox:batch:${dead.id}`]), null);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, beforeAll } from "@zuplo/test";
+import { ZuploRequest } from "@zuplo/runtime";
+import assert from "node:assert/strict";
+import { setDurableStore, storeCommand } from "../modules/durable-store";
+import { createMemoryDurableStore } from "../modules/durable-store-memory";
+import { getBillingPeriod } from "../modules/billing-period";
+import { getJob, recordJob } from "../modules/jobs";
+import { QuotaInfo } from "../modules/quota-enforcement";
+import { getCurrentUsage, incrementUsage } from "../modules/usage-counter";
+import { UsageBatch } from "../modules/billing-outbox";
+import cancellationCredit from "../modules/cancellation-credit";
+import { mockContext } from "./mock-context";
+
+/**
+ * Cancellation credits against the memory durable store. Each test cancels
+ * its own job, billed to its own subscription item.
+ */
+
+function quotaInfo(used: number): QuotaInfo {
+  return {
+    limit: 100000,
+    used,
+    requestUnits: 1,
+    remaining: Math.max(0, 100000 - used),
+    overage: Math.max(0, used - 100000),
+    isOverage: used >= 100000,
+    overageRate: 0.5,
+    resetDate: "2026-11-01",
+    tier: "crawler",
+  };
+}
+
+function cancelRequest(jobId: string, subscriptionItemId: string, info: QuotaInfo): ZuploRequest {
+  return new ZuploRequest(`https://api.example.com/crawl/job/${jobId}`, {
+    method: "DELETE",
+    params: { jobId },
+    user: {
+      sub: "cancel-test",
+      data: { tier: "crawler", stripeSubscriptionItemId: subscriptionItemId, quotaInfo: info },
+    },
+  });
+}
+
+function cancelResponse(processed: number): Response {
+  return Response.json({ job_id: "job", status: "cancelled", urls_processed: processed });
+}
+
+async function creditBatch(jobId: string): Promise<UsageBatch | undefined> {
+  const stored = await storeCommand<string | null>(["GET", `outbox:batch:credit-job-${jobId}`]);
+  return stored === null ? undefined : JSON.parse(stored);
+}
+
+/**
+ * Record a 4-URL job charged 4000 units, and count those units as used
+ */
+async function submitJob(jobId: string, subscriptionItemId: string, overageUnits: number): Promise<void> {
+  const context = mockContext();
+  await recordJob(
+    {
+      jobId,
+      consumer: "cancel-test",
+      backendId: "primary",
+      createdAt: Date.now(),
+      urlCount: 4,
+      unitsCharged: 4000,
+      billingPeriodStart: getBillingPeriod().start.getTime(),
+      overageUnits,
+      overageRate: 0.5,
+    },
+    "pending",
+    context
+  );
+  await incrementUsage({ consumer: "cancel-test", subscriptionItemId }, 4000, context);
+}
+
+describe("Cancellation credit", () => {
+  beforeAll(() => {
+    setDurableStore(createMemoryDurableStore());
+  });
+
+  it("credits the unprocessed share of the job's units, once", async () => {
+    const context = mockContext();
+    const ref = { consumer: "cancel-test", subscriptionItemId: "si_cancel_a" };
+    await submitJob("job-cancel-a", "si_cancel_a", 0);
+
+    const info = quotaInfo(4000);
+    await cancellationCredit(cancelResponse(1), cancelRequest("job-cancel-a", "si_cancel_a", info), context);
+    assert.equal(await getCurrentUsage(ref, undefined, context), 1000);
+    assert.equal((await getJob("job-cancel-a", context))?.unitsCredited, 3000);
+    assert.equal(info.used, 1000);
+    assert.equal(info.unitsCredited, 3000);
+    assert.equal(await creditBatch("job-cancel-a"), undefined); // Billed within quota
+
+    const again = quotaInfo(1000);
+    await cancellationCredit(cancelResponse(0), cancelRequest("job-cancel-a", "si_cancel_a", again), context);
+    assert.equal(await getCurrentUsage(ref, undefined, context), 1000);
+    assert.equal(again.unitsCredited, undefined);
+  });
+
+  it("credits the invoice only for the units billed as overage", async () => {
+    const context = mockContext();
+    await submitJob("job-cancel-b", "si_cancel_b", 2000);
+
+    await cancellationCredit(cancelResponse(1), cancelRequest("job-cancel-b", "si_cancel_b", quotaInfo(4000)), context);
+    const batch = await creditBatch("job-cancel-b");
+    assert.equal(batch?.subscriptionItemId, "si_cancel_b");
+    assert.deepEqual(batch?.invoiceCredits?.map(({ amount, units }) => ({ amount, units })), [
+      { amount: 100, units: 2000 },
+    ]);
+  });
+
+  it("gives no credit without urls_processed or a recorded submission size", async () => {
+    const context = mockContext();
+    const ref = { consumer: "cancel-test", subscriptionItemId: "si_cancel_c" };
+    await submitJob("job-cancel-c", "si_cancel_c", 0);
+
+    await cancellationCredit(
+      Response.json({ status: "cancelled" }),
+      cancelRequest("job-cancel-c", "si_cancel_c", quotaInfo(4000)),
+      context
+    );
+    await cancellationCredit(cancelResponse(0), cancelRequest("job-unknown", "si_cancel_c", quotaInfo(4000)), context);
+    assert.equal(await getCurrentUsage(ref, undefined, context), 4000);
+    assert.equal((await getJob("job-cancel-c", context))?.unitsCredited, undefined);
+  });
+});
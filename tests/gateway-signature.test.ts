@@ -0,0 +1,94 @@
+import { describe, it } from "@zuplo/test";
+import assert from "node:assert/strict";
+import {
+  MemoryNonceStore,
+  SIGNATURE_HEADERS,
+  UNSIGNED_PAYLOAD,
+  VerificationKey,
+  signGatewayRequest,
+  verifyGatewayRequest,
+} from "../modules/gateway-signature";
+
+/**
+ * Gateway-to-backend request signing, as the backend verifies it
+ */
+
+const identity = { consumer: "consumer-a", tier: "crawler" };
+const currentKey = { id: "key-2", secret: "current-secret" };
+const keyRing: Record<string, VerificationKey> = {
+  "key-2": { secret: "current-secret" },
+};
+
+async function signedRequest(body: string | undefined, key = currentKey) {
+  const headers = new Headers(await signGatewayRequest("POST", "/crawl/job?x=1", body, identity, key));
+  return { method: "POST", pathAndQuery: "/crawl/job?x=1", headers, body };
+}
+
+describe("Gateway signatures", () => {
+  it("verifies a signed request and returns its identity", async () => {
+    const result = await verifyGatewayRequest(await signedRequest('{"urls":[]}'), keyRing, new MemoryNonceStore());
+    assert.deepEqual(result, { valid: true, identity });
+  });
+
+  it("rejects a changed body, path or identity", async () => {
+    const nonces = new MemoryNonceStore();
+
+    const body = await signedRequest('{"urls":[]}');
+    const tamperedBody = await verifyGatewayRequest({ ...body, body: '{"urls":["x"]}' }, keyRing, nonces);
+    assert.equal(tamperedBody.reason, "body does not match its signed hash");
+
+    const path = await signedRequest(undefined);
+    const tamperedPath = await verifyGatewayRequest({ ...path, pathAndQuery: "/crawl/job?x=2" }, keyRing, nonces);
+    assert.equal(tamperedPath.reason, "signature mismatch");
+
+    const tier = await signedRequest(undefined);
+    tier.headers.set(SIGNATURE_HEADERS.tier, "enterprise");
+    assert.equal((await verifyGatewayRequest(tier, keyRing, nonces)).reason, "signature mismatch");
+  });
+
+  it("rejects a replayed nonce", async () => {
+    const nonces = new MemoryNonceStore();
+    const request = await signedRequest("{}");
+    assert.equal((await verifyGatewayRequest(request, keyRing, nonces)).valid, true);
+    assert.equal((await verifyGatewayRequest(request, keyRing, nonces)).reason, "nonce already used (replay)");
+  });
+
+  it("does not burn the nonce of a request that fails verification", async () => {
+    const nonces = new MemoryNonceStore();
+    const request = await signedRequest("{}");
+    assert.equal((await verifyGatewayRequest({ ...request, body: "{ }" }, keyRing, nonces)).valid, false);
+    assert.equal((await verifyGatewayRequest(request, keyRing, nonces)).valid, true);
+  });
+
+  it("accepts the previous key until its notAfter, then rejects it", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const previousKey = { id: "key-1", secret: "previous-secret" };
+    const request = await signedRequest("{}", previousKey);
+
+    const overlapping = { ...keyRing, "key-1": { secret: "previous-secret", notAfter: now + 300 } };
+    assert.equal((await verifyGatewayRequest(request, overlapping, new MemoryNonceStore())).valid, true);
+
+    const expired = { ...keyRing, "key-1": { secret: "previous-secret", notAfter: now - 1 } };
+    const result = await verifyGatewayRequest(request, expired, new MemoryNonceStore());
+    assert.equal(result.reason, "key key-1 has expired");
+
+    const removed = await verifyGatewayRequest(request, keyRing, new MemoryNonceStore());
+    assert.equal(removed.reason, "unknown key id key-1");
+  });
+
+  it("rejects a request signed outside the allowed clock skew", async () => {
+    const request = await signedRequest("{}");
+    const result = await verifyGatewayRequest(request, keyRing, new MemoryNonceStore(), -1);
+    assert.equal(result.reason, "timestamp outside the allowed window");
+  });
+
+  it("signs a streamed body as UNSIGNED-PAYLOAD and verifies it without reading the body", async () => {
+    const headers = new Headers(
+      await signGatewayRequest("POST", "/crawl/job", new ReadableStream(), identity, currentKey)
+    );
+    assert.equal(headers.get(SIGNATURE_HEADERS.contentSha256), UNSIGNED_PAYLOAD);
+
+    const request = { method: "POST", pathAndQuery: "/crawl/job", headers, body: undefined };
+    assert.deepEqual(await verifyGatewayRequest(request, keyRing, new MemoryNonceStore()), { valid: true, identity });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, beforeAll } from "@zuplo/test";
+import { ZuploRequest } from "@zuplo/runtime";
+import assert from "node:assert/strict";
+import { setDurableStore } from "../modules/durable-store";
+import { createMemoryDurableStore } from "../modules/durable-store-memory";
+import { recordJob } from "../modules/jobs";
+import jobOwnership from "../modules/job-ownership";
+import { mockContext } from "./mock-context";
+
+/**
+ * Job ownership against the memory durable store
+ */
+
+function jobRequest(jobId: string, consumer: string): ZuploRequest {
+  return new ZuploRequest(`https://api.example.com/crawl/job/${jobId}`, {
+    params: { jobId },
+    user: { sub: consumer, data: { tier: "crawler" } },
+  });
+}
+
+describe("Job ownership", () => {
+  beforeAll(async () => {
+    setDurableStore(createMemoryDurableStore());
+    await recordJob(
+      { jobId: "job-owned", consumer: "owner", backendId: "primary", createdAt: Date.now() },
+      "pending",
+      mockContext()
+    );
+  });
+
+  it("lets the owner through", async () => {
+    const request = jobRequest("job-owned", "owner");
+    assert.equal(await jobOwnership(request, mockContext(), undefined, "job-ownership"), request);
+  });
+
+  it("answers 404 for someone else's job", async () => {
+    const response = await jobOwnership(jobRequest("job-owned", "intruder"), mockContext(), undefined, "job-ownership");
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).detail, "Job job-owned was not found.");
+  });
+
+  it("answers the same 404 for a job the gateway has no record of", async () => {
+    const response = await jobOwnership(jobRequest("job-unknown", "owner"), mockContext(), undefined, "job-ownership");
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).detail, "Job job-unknown was not found.");
+  });
+});
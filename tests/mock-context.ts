@@ -0,0 +1,17 @@
+import { ZuploContext } from "@zuplo/runtime";
+import { createMockContext } from "@zuplo/runtime/mocks";
+
+/**
+ * A Zuplo context for tests
+ *
+ * createMockContext's MockZuploContext implements ZuploContext, but
+ * @zuplo/runtime/mocks ships its own copy of the runtime's type declarations.
+ * Their ZuploRequest has a #private member, and TypeScript treats classes with
+ * private members from different declarations as unrelated types, so
+ * MockZuploContext is not assignable to the runtime's ZuploContext (TS2322)
+ * and a direct cast is rejected (TS2352). At runtime both are the same
+ * classes, hence the cast through unknown, kept to this one place.
+ */
+export function mockContext(): ZuploContext {
+  return createMockContext().context as unknown as ZuploContext;
+}
@@ -0,0 +1,174 @@
+import { describe, it, beforeAll } from "@zuplo/test";
+import assert from "node:assert/strict";
+import { setDurableStore, storeTransaction } from "../modules/durable-store";
+import { createMemoryDurableStore } from "../modules/durable-store-memory";
+import { createMemoryBillingProvider } from "../modules/billing-memory";
+import { QuotaInfo } from "../modules/quota-enforcement";
+import { setQuotaHeaders } from "../modules/quota-headers";
+import { getPlan } from "../modules/plans";
+import { getBillingPeriod } from "../modules/billing-period";
+import { getCurrentUsage, incrementUsage, invalidateUsage, usageCreditCommands } from "../modules/usage-counter";
+import { mockContext } from "./mock-context";
+
+/**
+ * Quota and quota header behavior against the memory billing provider and
+ * the memory durable store. Each test uses its own subscription item or
+ * consumer, as both keep their state for the whole run.
+ */
+
+const provider = createMemoryBillingProvider({
+  subscriptions: [
+    {
+      id: "sub_test_a",
+      customerId: "cus_test_a",
+      status: "active",
+      tier: "crawler",
+      subscriptionItemId: "si_test_a",
+      billingCycleAnchor: 1767657600,
+    },
+    {
+      id: "sub_test_b",
+      customerId: "cus_test_b",
+      status: "active",
+      tier: "crawler",
+      subscriptionItemId: "si_test_b",
+      billingCycleAnchor: 1767657600,
+    },
+    {
+      id: "sub_test_c",
+      customerId: "cus_test_c",
+      status: "active",
+      tier: "crawler",
+      subscriptionItemId: "si_test_c",
+      billingCycleAnchor: 1767657600,
+    },
+  ],
+  usage: [
+    { customerId: "cus_test_a", value: 99000 },
+    { customerId: "cus_test_b", value: 40000 },
+    { customerId: "cus_test_c", value: 120000 },
+  ],
+});
+
+function quotaInfoFor(tier: string, used: number): QuotaInfo {
+  const plan = getPlan(tier);
+  return {
+    limit: plan.monthlyQuota,
+    used,
+    requestUnits: 1,
+    remaining: Math.max(0, plan.monthlyQuota - used),
+    overage: Math.max(0, used - plan.monthlyQuota),
+    isOverage: used >= plan.monthlyQuota,
+    overageRate: plan.overageRate,
+    resetDate: "2026-11-01",
+    tier,
+  };
+}
+
+describe("Quota usage", () => {
+  beforeAll(() => {
+    setDurableStore(createMemoryDurableStore());
+  });
+
+  it("reconciles usage through the subscription item's customer", async () => {
+    const context = mockContext();
+    const used = await getCurrentUsage({ consumer: "test-a", subscriptionItemId: "si_test_a" }, provider, context);
+    assert.equal(used, 99000);
+  });
+
+  it("counts usage locally for consumers without a subscription", async () => {
+    const context = mockContext();
+    const ref = { consumer: "test-free" };
+    await incrementUsage(ref, 3, context);
+    assert.equal(await incrementUsage(ref, 5, context), 8);
+    assert.equal(await getCurrentUsage(ref, undefined, context), 8);
+  });
+
+  it("picks up recorded usage once, however often it is recorded", async () => {
+    const context = mockContext();
+    const ref = { consumer: "test-b", subscriptionItemId: "si_test_b" };
+    assert.equal(await getCurrentUsage(ref, provider, context), 40000);
+
+    const usage = {
+      customerId: "cus_test_b",
+      value: 1500,
+      identifier: "batch-test-b",
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+    await provider.recordUsage(usage, context);
+    await provider.recordUsage(usage, context);
+    await invalidateUsage(ref, context);
+    assert.equal(await getCurrentUsage(ref, provider, context), 41500);
+  });
+
+  it("keeps credits applied after the next reconcile", async () => {
+    const context = mockContext();
+    const ref = { consumer: "test-c", subscriptionItemId: "si_test_c" };
+    assert.equal(await getCurrentUsage(ref, provider, context), 120000);
+
+    const periodStart = getBillingPeriod().start.getTime();
+    await storeTransaction(usageCreditCommands(ref, 1000, periodStart));
+    assert.equal(await getCurrentUsage(ref, provider, context), 119000);
+    await invalidateUsage(ref, context);
+    assert.equal(await getCurrentUsage(ref, provider, context), 119000);
+  });
+});
+
+describe("Quota headers", () => {
+  it("reports the allowance left under quota", () => {
+    const headers = new Headers();
+    setQuotaHeaders(headers, quotaInfoFor("crawler", 99000), 5);
+
+    assert.equal(headers.get("X-Quota-Limit"), "100000");
+    assert.equal(headers.get("X-Quota-Used"), "99000");
+    assert.equal(headers.get("X-Quota-Remaining"), "1000");
+    assert.equal(headers.get("X-Quota-Overage"), "0");
+    assert.equal(headers.get("X-Quota-Overage-Rate"), "$0.50/1k");
+    assert.equal(headers.get("X-Quota-Units-Charged"), "5");
+    assert.equal(headers.get("X-Quota-Tier"), "crawler");
+    assert.equal(headers.get("X-Quota-Reset-Date"), "2026-11-01");
+    assert.equal(headers.get("X-Quota-Warning"), null);
+  });
+
+  it("warns with the estimated cost in overage", () => {
+    const headers = new Headers();
+    setQuotaHeaders(headers, quotaInfoFor("crawler", 120000), 1);
+
+    assert.equal(headers.get("X-Quota-Remaining"), "0");
+    assert.equal(headers.get("X-Quota-Overage"), "20000");
+    assert.equal(headers.get("X-Quota-Warning"), "Quota exceeded. Current overage: 20000 units (~$10.00)");
+  });
+
+  it("omits the overage rate on the free tier", () => {
+    const headers = new Headers();
+    setQuotaHeaders(headers, quotaInfoFor("free", 100), 1);
+
+    assert.equal(headers.get("X-Quota-Limit"), "10000");
+    assert.equal(headers.get("X-Quota-Overage-Rate"), null);
+  });
+
+  it("reports the spend cap, credits and the key's own usage when set", () => {
+    const headers = new Headers();
+    setQuotaHeaders(
+      headers,
+      {
+        ...quotaInfoFor("crawler", 120000),
+        spendCap: 25,
+        spendCapRemaining: 15,
+        unitsCredited: 40,
+        organization: "acme",
+        keyUsed: 700,
+        keyLimit: 1000,
+        keyRemaining: 300,
+      },
+      0
+    );
+
+    assert.equal(headers.get("X-Spend-Cap"), "$25.00");
+    assert.equal(headers.get("X-Spend-Cap-Remaining"), "$15.00");
+    assert.equal(headers.get("X-Quota-Units-Credited"), "40");
+    assert.equal(headers.get("X-Quota-Key-Used"), "700");
+    assert.equal(headers.get("X-Quota-Key-Limit"), "1000");
+    assert.equal(headers.get("X-Quota-Key-Remaining"), "300");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, beforeAll } from "@zuplo/test";
+import { ZuploRequest } from "@zuplo/runtime";
+import assert from "node:assert/strict";
+import { setDurableStore } from "../modules/durable-store";
+import { createMemoryDurableStore } from "../modules/durable-store-memory";
+import { confirmJobStarted, markJobFinished, releaseJobSlot } from "../modules/jobs";
+import rateLimiting, { RateLimitInfo } from "../modules/rate-limiting";
+import concurrencyLimit from "../modules/concurrency-limit";
+import { mockContext } from "./mock-context";
+
+/**
+ * Burst, hourly and concurrency counters against the memory durable store.
+ * Each test uses its own consumer, as the store keeps its state for the whole run.
+ */
+
+function consumerRequest(consumer: string, tier = "free"): ZuploRequest {
+  return new ZuploRequest("https://api.example.com/crawl/job", {
+    method: "POST",
+    user: { sub: consumer, data: { tier } },
+  });
+}
+
+describe("Rate limiting", () => {
+  beforeAll(() => {
+    setDurableStore(createMemoryDurableStore());
+  });
+
+  it("allows the tier's burst and rejects the next request in the same second", async () => {
+    // Free tier: 2 requests per second
+    for (let i = 0; i < 2; i++) {
+      const request = consumerRequest("burst-a");
+      assert.equal(await rateLimiting(request, mockContext(), undefined, "rate-limit-state"), request);
+    }
+
+    const response = await rateLimiting(consumerRequest("burst-a"), mockContext(), undefined, "rate-limit-state");
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get("Retry-After"), "1");
+    assert.equal(response.headers.get("RateLimit-Remaining"), "0");
+    const problem = await response.json();
+    assert.equal(problem.limitType, "burst");
+    assert.equal(problem.limit, 2);
+  });
+
+  it("keeps each consumer's burst window separate", async () => {
+    const request = consumerRequest("burst-b");
+    await rateLimiting(consumerRequest("burst-c"), mockContext(), undefined, "rate-limit-state");
+    await rateLimiting(consumerRequest("burst-c"), mockContext(), undefined, "rate-limit-state");
+    assert.equal(await rateLimiting(request, mockContext(), undefined, "rate-limit-state"), request);
+  });
+
+  it("counts the hourly window for the headers", async () => {
+    const first = consumerRequest("hourly-a", "crawler");
+    await rateLimiting(first, mockContext(), undefined, "rate-limit-state");
+    const second = consumerRequest("hourly-a", "crawler");
+    await rateLimiting(second, mockContext(), undefined, "rate-limit-state");
+
+    const info = second.user?.data?.rateLimitInfo as RateLimitInfo;
+    assert.equal(info.limit, 280);
+    assert.equal(info.remaining, 278);
+    assert.equal(info.windowSeconds, 3600);
+    assert.ok(info.resetSeconds > 3590 && info.resetSeconds <= 3600);
+    assert.equal(info.policy, "280;w=3600, 5;w=1");
+  });
+});
+
+describe("Concurrency limit", () => {
+  beforeAll(() => {
+    setDurableStore(createMemoryDurableStore());
+  });
+
+  it("rejects a submission once every slot is taken, until a job finishes", async () => {
+    // Free tier: 2 concurrent jobs
+    const [first, second, third] = [mockContext(), mockContext(), mockContext()];
+    for (const context of [first, second]) {
+      const request = consumerRequest("concurrency-a");
+      assert.equal(await concurrencyLimit(request, context, { slot: "job" }, "concurrency-limit"), request);
+    }
+    await confirmJobStarted("concurrency-a", first.requestId, "job-1", first);
+
+    const response = await concurrencyLimit(consumerRequest("concurrency-a"), third, undefined, "concurrency-limit");
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 429);
+    const problem = await response.json();
+    assert.equal(problem.limitType, "concurrency");
+    assert.equal(problem.inFlight, 2);
+
+    assert.equal(await markJobFinished("concurrency-a", "job-1", first), true);
+    const request = consumerRequest("concurrency-a");
+    assert.equal(await concurrencyLimit(request, third, undefined, "concurrency-limit"), request);
+  });
+
+  it("frees the reservation of a submission that created no job", async () => {
+    const [first, second, third] = [mockContext(), mockContext(), mockContext()];
+    await concurrencyLimit(consumerRequest("concurrency-b"), first, undefined, "concurrency-limit");
+    await concurrencyLimit(consumerRequest("concurrency-b"), second, undefined, "concurrency-limit");
+    await releaseJobSlot("concurrency-b", second.requestId, second);
+
+    const request = consumerRequest("concurrency-b");
+    assert.equal(await concurrencyLimit(request, third, undefined, "concurrency-limit"), request);
+  });
+});
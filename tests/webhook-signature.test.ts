@@ -0,0 +1,66 @@
+import { describe, it } from "@zuplo/test";
+import assert from "node:assert/strict";
+import { generateWebhookSecret, signWebhookPayload, verifyWebhookSignature } from "../modules/webhook-signature";
+import { verifyStripeSignature } from "../modules/stripe";
+
+/**
+ * Outgoing job webhook signatures, and incoming Stripe webhook signatures
+ * (the same HMAC-SHA256 of "<t>.<body>" construction)
+ */
+
+const payload = JSON.stringify({ id: "evt_job-1", type: "job.completed" });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("Webhook signatures", () => {
+  it("generates a distinct random secret each time", () => {
+    const secret = generateWebhookSecret();
+    assert.match(secret, /^whsec_[0-9a-f]{64}$/);
+    assert.notEqual(generateWebhookSecret(), secret);
+  });
+
+  it("verifies a signed payload", async () => {
+    const secret = generateWebhookSecret();
+    assert.equal(await verifyWebhookSignature(payload, await signWebhookPayload(payload, secret), secret), true);
+  });
+
+  it("rejects another secret, a changed payload or a missing header", async () => {
+    const secret = generateWebhookSecret();
+    const header = await signWebhookPayload(payload, secret);
+    assert.equal(await verifyWebhookSignature(payload, header, generateWebhookSecret()), false);
+    assert.equal(await verifyWebhookSignature(`${payload} `, header, secret), false);
+    assert.equal(await verifyWebhookSignature(payload, null, secret), false);
+    assert.equal(await verifyWebhookSignature(payload, "t=abc,v1=zz", secret), false);
+  });
+
+  it("rejects a signature older than the tolerance", async () => {
+    const secret = generateWebhookSecret();
+    const header = await signWebhookPayload(payload, secret, now() - 600);
+    assert.equal(await verifyWebhookSignature(payload, header, secret), false);
+    assert.equal(await verifyWebhookSignature(payload, header, secret, 900), true);
+  });
+});
+
+describe("Stripe webhook signatures", () => {
+  const secret = "whsec_stripe_test";
+
+  it("verifies a Stripe-Signature header", async () => {
+    assert.equal(await verifyStripeSignature(payload, await signWebhookPayload(payload, secret), secret), true);
+  });
+
+  it("accepts any matching v1 signature during secret rotation", async () => {
+    const timestamp = now();
+    const [t, current] = (await signWebhookPayload(payload, secret, timestamp)).split(",");
+    const [, previous] = (await signWebhookPayload(payload, "whsec_stripe_previous", timestamp)).split(",");
+    assert.equal(await verifyStripeSignature(payload, `${t},${previous},${current}`, secret), true);
+  });
+
+  it("rejects a changed payload, an old timestamp or no signature", async () => {
+    assert.equal(await verifyStripeSignature(`${payload} `, await signWebhookPayload(payload, secret), secret), false);
+    assert.equal(
+      await verifyStripeSignature(payload, await signWebhookPayload(payload, secret, now() - 600), secret),
+      false
+    );
+    assert.equal(await verifyStripeSignature(payload, `t=${now()}`, secret), false);
+    assert.equal(await verifyStripeSignature(payload, null, secret), false);
+  });
+});